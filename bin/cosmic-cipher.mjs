@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx, pointed at the project's tsconfig so
+// the `@/` path aliases resolve from any working directory
+import { spawnSync } from "child_process";
+import { createRequire } from "module";
+import { fileURLToPath } from "url";
+
+const require = createRequire(import.meta.url);
+const resolve = (path) => fileURLToPath(new URL(path, import.meta.url));
+
+const result = spawnSync(
+  process.execPath,
+  [
+    require.resolve("tsx/cli"),
+    resolve("../src/cli/index.ts"),
+    ...process.argv.slice(2),
+  ],
+  {
+    stdio: "inherit",
+    env: { ...process.env, TSX_TSCONFIG_PATH: resolve("../tsconfig.json") },
+  }
+);
+
+process.exitCode = result.status ?? 1;
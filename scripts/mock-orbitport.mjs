@@ -0,0 +1,257 @@
+/**
+ * Mock Orbitport server for offline development.
+ *
+ * Serves `POST /oauth/token` (client credentials grant, HS256 JWTs with
+ * `exp`) and `GET /api/v1/services/trng` (seeds signed with a fixed ed25519
+ * test key). Point both `ORBITPORT_AUTH_URL` and `ORBITPORT_API_URL` at it.
+ *
+ * Failure switches, read at startup and changeable at runtime with
+ * `POST /__mock/config` (JSON body with the same keys in camelCase):
+ *
+ * - `MOCK_PORT`: port to listen on (default 4010)
+ * - `MOCK_LATENCY_MS`: delay added to every response
+ * - `MOCK_TOKEN_TTL`: lifetime of issued tokens in seconds (default 3600)
+ * - `MOCK_TOKEN_FAILURE`, `MOCK_TRNG_FAILURE`: `none`, `401`, `500`, `503`,
+ *   `malformed` (truncated JSON) or, for the TRNG only, `bad-signature`
+ * - `MOCK_FAILURE_RATE`: probability (0-1) that a configured failure is
+ *   applied to a request (default 1)
+ */
+import crypto from "crypto";
+import http from "http";
+
+const SWITCHES = [
+  "latencyMs",
+  "tokenTtl",
+  "tokenFailure",
+  "trngFailure",
+  "failureRate",
+];
+const FAILURES = ["none", "401", "500", "503", "malformed", "bad-signature"];
+
+/** Fixed test key, so its public key can be pinned across restarts. */
+const TEST_PRIVATE_KEY_SEED =
+  "9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60";
+const ED25519_PKCS8_PREFIX = "302e020100300506032b657004220420";
+
+const privateKey = crypto.createPrivateKey({
+  key: Buffer.from(ED25519_PKCS8_PREFIX + TEST_PRIVATE_KEY_SEED, "hex"),
+  format: "der",
+  type: "pkcs8",
+});
+// The raw public key is the last 32 bytes of its SubjectPublicKeyInfo
+const publicKeyHex = crypto
+  .createPublicKey(privateKey)
+  .export({ format: "der", type: "spki" })
+  .subarray(-32)
+  .toString("hex");
+
+// Tokens are signed with a per-process secret; restarting the mock revokes
+// every token issued before, like a key rotation
+const jwtSecret = crypto.randomBytes(32);
+
+/**
+ * Reads a failure switch, rejecting unknown values.
+ */
+function readFailure(name) {
+  const value = process.env[name] || "none";
+  if (!FAILURES.includes(value)) {
+    throw new Error(`${name} must be one of ${FAILURES.join(", ")}`);
+  }
+  return value;
+}
+
+const config = {
+  port: parseInt(process.env.MOCK_PORT || "4010", 10),
+  latencyMs: parseInt(process.env.MOCK_LATENCY_MS || "0", 10),
+  tokenTtl: parseInt(process.env.MOCK_TOKEN_TTL || "3600", 10),
+  tokenFailure: readFailure("MOCK_TOKEN_FAILURE"),
+  trngFailure: readFailure("MOCK_TRNG_FAILURE"),
+  failureRate: parseFloat(process.env.MOCK_FAILURE_RATE || "1"),
+};
+
+const base64url = (value) => Buffer.from(value).toString("base64url");
+
+/**
+ * Issues an HS256 JWT for the given client.
+ */
+function issueToken(clientId, audience) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64url(
+    JSON.stringify({
+      iss: "mock-orbitport",
+      sub: `${clientId}@clients`,
+      aud: audience,
+      iat: now,
+      exp: now + config.tokenTtl,
+    })
+  );
+  const signature = crypto
+    .createHmac("sha256", jwtSecret)
+    .update(`${header}.${payload}`)
+    .digest("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Checks a bearer token's signature and expiry.
+ */
+function isValidToken(authorization) {
+  const token = authorization?.startsWith("Bearer ")
+    ? authorization.slice(7)
+    : "";
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return false;
+
+  const expected = crypto
+    .createHmac("sha256", jwtSecret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (
+    actual.length !== expected.length ||
+    !crypto.timingSafeEqual(actual, expected)
+  ) {
+    return false;
+  }
+
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return exp > Math.floor(Date.now() / 1000);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a signed seed response. With `badSignature` the signature covers
+ * different bytes, so verification fails.
+ */
+function createSeed(badSignature) {
+  const data = crypto.randomBytes(32);
+  const signed = badSignature ? crypto.randomBytes(32) : data;
+  return {
+    service: "trng",
+    src: "mock",
+    data: data.toString("hex"),
+    signature: {
+      value: crypto.sign(null, signed, privateKey).toString("hex"),
+      pk: publicKeyHex,
+      algo: "ed25519",
+    },
+  };
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends the configured failure, or returns false if the request should
+ * succeed.
+ */
+function sendFailure(res, failure) {
+  if (failure === "none" || Math.random() >= config.failureRate) return false;
+  switch (failure) {
+    case "401":
+      sendJson(res, 401, { error: "unauthorized" });
+      return true;
+    case "500":
+    case "503":
+      sendJson(res, Number(failure), { error: "mock failure" });
+      return true;
+    case "malformed":
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"service": "trng", "data": ');
+      return true;
+    default:
+      return false;
+  }
+}
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return JSON.parse(Buffer.concat(chunks).toString() || "{}");
+}
+
+async function handle(req, res) {
+  if (config.latencyMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, config.latencyMs));
+  }
+
+  const { pathname } = new URL(req.url, "http://localhost");
+
+  if (req.method === "POST" && pathname === "/oauth/token") {
+    if (sendFailure(res, config.tokenFailure)) return;
+    const body = await readJson(req);
+    if (body.grant_type !== "client_credentials") {
+      return sendJson(res, 400, { error: "unsupported_grant_type" });
+    }
+    if (!body.client_id || !body.client_secret) {
+      return sendJson(res, 401, { error: "invalid_client" });
+    }
+    return sendJson(res, 200, {
+      access_token: issueToken(body.client_id, body.audience),
+      token_type: "Bearer",
+      expires_in: config.tokenTtl,
+    });
+  }
+
+  if (req.method === "GET" && pathname === "/api/v1/services/trng") {
+    if (!isValidToken(req.headers.authorization)) {
+      return sendJson(res, 401, { error: "invalid_token" });
+    }
+    if (sendFailure(res, config.trngFailure)) return;
+    return sendJson(
+      res,
+      200,
+      createSeed(
+        config.trngFailure === "bad-signature" &&
+          Math.random() < config.failureRate
+      )
+    );
+  }
+
+  if (req.method === "POST" && pathname === "/__mock/config") {
+    const updates = await readJson(req);
+    for (const key of ["tokenFailure", "trngFailure"]) {
+      if (updates[key] !== undefined && !FAILURES.includes(updates[key])) {
+        return sendJson(res, 400, {
+          error: `${key} must be one of ${FAILURES.join(", ")}`,
+        });
+      }
+    }
+    for (const key of ["latencyMs", "tokenTtl", "failureRate"]) {
+      if (updates[key] !== undefined && typeof updates[key] !== "number") {
+        return sendJson(res, 400, { error: `${key} must be a number` });
+      }
+    }
+    for (const key of SWITCHES) {
+      if (updates[key] !== undefined) config[key] = updates[key];
+    }
+    console.log("Mock config updated:", config);
+    return sendJson(res, 200, config);
+  }
+
+  sendJson(res, 404, { error: "not_found" });
+}
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error("Mock request failed:", error);
+      sendJson(res, 400, { error: "bad_request" });
+    });
+  })
+  .listen(config.port, () => {
+    const url = `http://localhost:${config.port}`;
+    console.log(`Mock Orbitport listening on ${url}`);
+    console.log(`  ORBITPORT_AUTH_URL=${url}`);
+    console.log(`  ORBITPORT_API_URL=${url}`);
+    console.log("  ORBITPORT_CLIENT_ID=mock-client");
+    console.log("  ORBITPORT_CLIENT_SECRET=mock-secret");
+    console.log(`  ORBITPORT_TRUSTED_KEYS=${publicKeyHex}`);
+    console.log("Failure switches:", config);
+  });
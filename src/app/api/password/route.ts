@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchRandomSeed } from "@/lib/entropy-provider";
+import {
+  generateFromRequest,
+  GenerationRequest,
+  MAX_API_GENERATION_WORK,
+  parseGenerationRequest,
+  validateRequestWork,
+} from "@/lib/generation-request";
+import {
+  checkRateLimit,
+  getRateLimitHeaders,
+  rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+import { createReceipt } from "@/lib/receipt";
+import { PasswordApiResponse } from "@/types/password";
+
+export async function POST(req: NextRequest) {
+  const rateLimit = await checkRateLimit(req);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  let request: GenerationRequest;
+  try {
+    request = parseGenerationRequest(await req.json());
+    // Generation blocks the server, so the API allows less than the UI
+    validateRequestWork(request, MAX_API_GENERATION_WORK);
+  } catch (error) {
+    const message =
+      error instanceof SyntaxError
+        ? "Request body must be valid JSON"
+        : (error as Error).message;
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    // Same provider chain as /api/random, including the local fallback
+    const { usedFallback, ...seed } = await fetchRandomSeed();
+    const { passwords, entropyBits } = generateFromRequest(seed.data, request);
+    return NextResponse.json<PasswordApiResponse>(
+      {
+        mode: request.mode,
+        passwords,
+        entropyBits,
+        seed,
+        usedFallback,
+        receipt: createReceipt(request, seed, null),
+      },
+      { headers: getRateLimitHeaders(rateLimit) }
+    );
+  } catch (error) {
+    console.error("Error generating passwords:", error);
+    return NextResponse.json(
+      { message: "Failed to generate password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkRateLimit,
+  getRateLimitHeaders,
+  rateLimitExceededResponse,
+} from "@/lib/rate-limit";
+import { isSeedResponse } from "@/lib/receipt";
+import { verifySeedSignature } from "@/lib/signature";
+import { SignatureVerification } from "@/types/orbitport";
+
+// Only checks the seed signature. Receipts are matched against passwords in
+// the browser, so neither the password nor the local entropy is sent here.
+export async function POST(req: NextRequest) {
+  const rateLimit = await checkRateLimit(req);
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  let seed: unknown;
+  try {
+    seed = (await req.json())?.seed;
+  } catch {
+    return NextResponse.json(
+      { message: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+  if (!isSeedResponse(seed)) {
+    return NextResponse.json(
+      { message: "seed is missing or malformed" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json<SignatureVerification>(verifySeedSignature(seed), {
+    headers: getRateLimitHeaders(rateLimit),
+  });
+}
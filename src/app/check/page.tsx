@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Eye, EyeOff, XCircle } from "lucide-react";
+import { Starfield } from "@/components/starfield";
+import { PolicyPicker } from "@/components/policy-picker";
+import {
+  checkPasswordCompliance,
+  checkPolicyCompliance,
+  ComplianceResult,
+} from "@/lib/compliance";
+import { DEFAULT_GENERATE_PARAMS } from "@/lib/generation-request";
+import { PasswordPolicy } from "@/lib/policy";
+
+/**
+ * Checks a password against a policy, or the generator defaults when no
+ * policy is selected.
+ */
+function checkPassword(
+  password: string,
+  policy: PasswordPolicy | null,
+  username: string
+): ComplianceResult[] {
+  return policy
+    ? checkPolicyCompliance(password, policy, username)
+    : checkPasswordCompliance(password, {
+        ...DEFAULT_GENERATE_PARAMS,
+        username,
+      });
+}
+
+export default function CheckPage() {
+  const [password, setPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const [username, setUsername] = useState("");
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Everything runs in the browser; the password never leaves this page
+  let results: ComplianceResult[] = [];
+  let policyError: string | null = null;
+  if (password) {
+    try {
+      results = checkPassword(password, policy, username);
+    } catch (err: unknown) {
+      policyError = (err as Error).message;
+    }
+  }
+  const failures = results.filter((result) => !result.passed).length;
+
+  const handleApplyPolicy = (next: PasswordPolicy | null) => {
+    setError(null);
+    setPolicy(next);
+  };
+
+  return (
+    <div className="relative min-h-screen bg-gradient-to-br from-[#0A0B1A] via-[#1C2526] to-[#0A0B1A] overflow-hidden text-white">
+      <Starfield className="absolute inset-0 overflow-hidden" />
+      <div className="relative z-10 flex flex-col items-center justify-center min-h-screen py-20">
+        <div className="w-full max-w-2xl mx-auto p-4 sm:p-6 lg:p-8">
+          <Card className="backdrop-blur-md bg-white/10 border-white/20 shadow-2xl">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold text-white">
+                Check a Password
+              </CardTitle>
+              <p className="text-gray-300 text-sm">
+                Test an existing password against a policy. The check runs in
+                your browser; the password is never sent anywhere.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <PolicyPicker
+                policy={policy}
+                onApply={handleApplyPolicy}
+                onError={setError}
+                placeholder="Generator defaults"
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-white">
+                  Password
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    spellCheck={false}
+                    autoComplete="off"
+                    className="bg-black/20 border-white/20 text-white font-mono"
+                  />
+                  <Button
+                    onClick={() => setShowPassword(!showPassword)}
+                    size="sm"
+                    variant="ghost"
+                    aria-label={
+                      showPassword ? "Hide password" : "Show password"
+                    }
+                    className="text-[#FCD501] hover:text-yellow-300 hover:bg-yellow-400/10"
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-4 h-4" />
+                    ) : (
+                      <Eye className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="username" className="text-white">
+                  Username (optional)
+                </Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  spellCheck={false}
+                  autoComplete="off"
+                  placeholder="Checks that the password does not contain it"
+                  className="bg-black/20 border-white/20 text-white"
+                />
+              </div>
+
+              {(error || policyError) && (
+                <div className="text-red-400 text-sm text-center bg-red-900/20 p-3 rounded-lg border border-red-500/20">
+                  {error || policyError}
+                </div>
+              )}
+
+              {results.length > 0 && (
+                <div className="space-y-3">
+                  <div
+                    className={`text-sm text-center p-3 rounded-lg border ${
+                      failures === 0
+                        ? "text-green-400 bg-green-900/20 border-green-500/20"
+                        : "text-red-400 bg-red-900/20 border-red-500/20"
+                    }`}
+                  >
+                    {failures === 0
+                      ? `Compliant with ${policy?.name ?? "the generator defaults"}`
+                      : `${failures} of ${results.length} rules failed`}
+                  </div>
+                  <ul className="space-y-2">
+                    {results.map(({ rule, passed, detail }) => (
+                      <li
+                        key={rule}
+                        className="flex items-start gap-2 text-sm bg-black/20 p-2 rounded border border-white/10"
+                      >
+                        {passed ? (
+                          <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-green-400" />
+                        ) : (
+                          <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-red-400" />
+                        )}
+                        <span className="flex-1">{rule}</span>
+                        {detail && (
+                          <span
+                            className={`text-xs ${
+                              passed ? "text-gray-400" : "text-red-300"
+                            }`}
+                          >
+                            {detail}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <p className="text-center text-xs text-gray-400">
+                <Link href="/" className="hover:text-[#FCD501] underline">
+                  Back to the generator
+                </Link>
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useDeferredValue, useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -19,11 +19,68 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Copy, ChevronDown, Sparkles, Eye, Info } from "lucide-react";
-import { generatePasswordFromSeed } from "@/lib/password-generator";
+import {
+  Copy,
+  ChevronDown,
+  Sparkles,
+  Eye,
+  Info,
+  ShieldCheck,
+  ShieldAlert,
+  Download,
+} from "lucide-react";
+import {
+  AMBIGUOUS_CHARS,
+  CHARSETS,
+  estimateRuleAcceptance,
+  GenerateParams,
+  MAX_PASSWORD_LENGTH,
+  MIN_USERNAME_LENGTH,
+  splitCustomCharset,
+  validateGenerationWork,
+} from "@/lib/password-generator";
+import { PassphraseParams } from "@/lib/passphrase-generator";
+import { MaskParams, validateMaskParams } from "@/lib/mask-generator";
+import {
+  PronounceableParams,
+  validatePronounceableParams,
+} from "@/lib/pronounceable-generator";
+import { MnemonicParams } from "@/lib/mnemonic-generator";
+import {
+  SecretParams,
+  stampSecretParams,
+  validateSecretParams,
+} from "@/lib/secret-generator";
+import {
+  DEFAULT_BIP39_PARAMS,
+  DEFAULT_MASK_PARAMS,
+  DEFAULT_PRONOUNCEABLE_PARAMS,
+  DEFAULT_SECRET_PARAMS,
+  estimateRequestEntropy,
+  generateFromRequest,
+  GenerationRequest,
+  GeneratorMode,
+  MAX_GENERATION_COUNT,
+} from "@/lib/generation-request";
+import { mixSeedWithLocalEntropy } from "@/lib/entropy-mixing";
+import { createReceipt } from "@/lib/receipt";
+import {
+  paramsToPolicy,
+  PasswordPolicy,
+  policyToParams,
+  validatePolicyLength,
+} from "@/lib/policy";
 import { useOrbitport } from "@/hooks/useOrbitport";
 import { Starfield } from "@/components/starfield";
+import { PassphraseOptions } from "@/components/passphrase-options";
+import { MaskOptions } from "@/components/mask-options";
+import { PronounceableOptions } from "@/components/pronounceable-options";
+import { SecretOptions } from "@/components/secret-options";
+import { Bip39Options } from "@/components/bip39-options";
+import { StrengthMeter } from "@/components/strength-meter";
+import { PolicyPicker } from "@/components/policy-picker";
 import Image from "next/image";
+import Link from "next/link";
 import {
   Accordion,
   AccordionItem,
@@ -35,13 +92,68 @@ import {
   TooltipTrigger,
   TooltipContent,
 } from "@/components/ui/tooltip";
+import { SeedRejection, SignatureVerification } from "@/types/orbitport";
+import { GenerationReceipt } from "@/types/receipt";
 
 const basePath = process.env.NEXT_PUBLIC_BASE_PATH || "";
 
+const GENERATOR_MODES: {
+  value: GeneratorMode;
+  label: string;
+  /** What one generated item is called in labels. */
+  noun: string;
+}[] = [
+  { value: "password", label: "Password", noun: "Password" },
+  { value: "passphrase", label: "Passphrase", noun: "Passphrase" },
+  { value: "mask", label: "Mask", noun: "Password" },
+  { value: "pronounceable", label: "Pronounceable", noun: "Password" },
+  { value: "secret", label: "Secret", noun: "Secret" },
+  { value: "bip39", label: "BIP39", noun: "Mnemonic" },
+];
+
+const modeNoun = (mode: GeneratorMode) =>
+  GENERATOR_MODES.find((option) => option.value === mode)!.noun;
+
 interface PasswordResult {
-  password: string;
+  mode: GeneratorMode;
+  passwords: string[];
+  entropyBits: number;
   seed: string;
+  source: string;
+  localEntropy: string | null;
+  verification: SignatureVerification;
   usedFallback: boolean;
+  rejections: SeedRejection[];
+  receipt: GenerationReceipt;
+}
+
+const SIGNATURE_LABELS: Record<SignatureVerification["status"], string> = {
+  verified: "Signature verified",
+  unpinned: "Signature valid (key not pinned)",
+  untrusted: "Signed by untrusted key",
+  invalid: "Invalid signature",
+  unsupported: "Unsupported signature algorithm",
+  unsigned: "Unsigned seed",
+};
+
+/** Labels for non-Orbitport seed sources, keyed by `src`. */
+const SEED_SOURCE_LABELS: Record<string, string> = {
+  local: "Local CSPRNG",
+  test: "Deterministic test seed",
+};
+
+/**
+ * Offers a value as a JSON file download.
+ */
+function downloadJson(filename: string, value: unknown) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value, null, 2)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
 }
 
 interface ApiError {
@@ -51,6 +163,8 @@ interface ApiError {
 export default function Home() {
   const { getRandomSeed } = useOrbitport();
 
+  const [mode, setMode] = useState<GeneratorMode>("password");
+
   const [formData, setFormData] = useState({
     length: 16,
     minUpper: 2,
@@ -66,15 +180,67 @@ export default function Home() {
     symbols: true,
   });
 
+  const [charsetOptions, setCharsetOptions] = useState({
+    symbols: CHARSETS.symbols,
+    excludeAmbiguous: true,
+    excludeChars: "",
+    customCharset: "",
+  });
+
+  const [ruleOptions, setRuleOptions] = useState({
+    startWithLetter: false,
+    // 0 means no limit
+    maxRepeat: 0,
+    noSequences: false,
+    username: "",
+  });
+
+  const [passphraseParams, setPassphraseParams] = useState<PassphraseParams>({
+    wordCount: 6,
+    separator: "-",
+    capitalization: "lower",
+    includeNumber: false,
+    includeSymbol: false,
+  });
+
+  const [maskParams, setMaskParams] = useState<MaskParams>(DEFAULT_MASK_PARAMS);
+  const [pronounceableParams, setPronounceableParams] =
+    useState<PronounceableParams>(DEFAULT_PRONOUNCEABLE_PARAMS);
+  const [secretParams, setSecretParams] = useState<SecretParams>(
+    DEFAULT_SECRET_PARAMS
+  );
+  const [bip39Params, setBip39Params] =
+    useState<MnemonicParams>(DEFAULT_BIP39_PARAMS);
+
+  const [count, setCount] = useState(1);
+  const [mixLocalEntropy, setMixLocalEntropy] = useState(true);
+  const [includePasswordsInReceipt, setIncludePasswordsInReceipt] =
+    useState(false);
+  const [activePolicy, setActivePolicy] = useState<PasswordPolicy | null>(null);
+
   const [result, setResult] = useState<PasswordResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
 
   const handleInputChange = (field: string, value: number) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleCharsetOptionChange = (
+    field: string,
+    value: string | boolean
+  ) => {
+    setCharsetOptions((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleRuleOptionChange = (
+    field: string,
+    value: string | number | boolean
+  ) => {
+    setRuleOptions((prev) => ({ ...prev, [field]: value }));
+  };
+
   const handleCharacterTypeChange = (type: string, checked: boolean) => {
     setCharacterTypes((prev) => ({ ...prev, [type]: checked }));
 
@@ -94,6 +260,48 @@ export default function Home() {
     }
   };
 
+  // Character types missing from a custom pool count as not included
+  const customClasses = charsetOptions.customCharset
+    ? splitCustomCharset(charsetOptions.customCharset)
+    : null;
+  const includedTypes = {
+    uppercase: characterTypes.uppercase && customClasses?.uppercase !== "",
+    lowercase: characterTypes.lowercase && customClasses?.lowercase !== "",
+    numbers: characterTypes.numbers && customClasses?.numbers !== "",
+    symbols: characterTypes.symbols && customClasses?.symbols !== "",
+  };
+
+  const passwordParams: GenerateParams = {
+    length: formData.length,
+    minUpper: includedTypes.uppercase ? formData.minUpper : 0,
+    minLower: includedTypes.lowercase ? formData.minLower : 0,
+    minNumbers: includedTypes.numbers ? formData.minNumbers : 0,
+    minSymbols: includedTypes.symbols ? formData.minSymbols : 0,
+    includeUpper: includedTypes.uppercase,
+    includeLower: includedTypes.lowercase,
+    includeNumbers: includedTypes.numbers,
+    includeSymbols: includedTypes.symbols,
+    symbols: charsetOptions.symbols,
+    excludeAmbiguous: charsetOptions.excludeAmbiguous,
+    excludeChars: charsetOptions.excludeChars,
+    customCharset: charsetOptions.customCharset || undefined,
+    startWithLetter: ruleOptions.startWithLetter,
+    maxRepeat: ruleOptions.maxRepeat || undefined,
+    noSequences: ruleOptions.noSequences,
+    username: ruleOptions.username || undefined,
+  };
+
+  const generationRequest: GenerationRequest = {
+    mode,
+    count,
+    password: passwordParams,
+    passphrase: passphraseParams,
+    mask: maskParams,
+    pronounceable: pronounceableParams,
+    secret: secretParams,
+    bip39: bip39Params,
+  };
+
   const handleGenerate = async () => {
     setIsLoading(true);
     setError(null);
@@ -103,23 +311,39 @@ export default function Home() {
       // Fetch seed from API using the hook
       const seedResult = await getRandomSeed();
 
-      // Generate password client-side using the seed
-      const password = generatePasswordFromSeed(seedResult.data, {
-        length: formData.length,
-        minUpper: formData.minUpper,
-        minLower: formData.minLower,
-        minNumbers: formData.minNumbers,
-        minSymbols: formData.minSymbols,
-        includeUpper: characterTypes.uppercase,
-        includeLower: characterTypes.lowercase,
-        includeNumbers: characterTypes.numbers,
-        includeSymbols: characterTypes.symbols,
-      });
+      // Optionally mix in local entropy so neither source alone controls
+      // the output
+      const mixed = mixLocalEntropy
+        ? mixSeedWithLocalEntropy(seedResult.data)
+        : null;
+
+      // ULIDs embed the generation time, which the receipt must record
+      const request: GenerationRequest = {
+        ...generationRequest,
+        secret: stampSecretParams(secretParams),
+      };
+
+      // Generate passwords client-side, each from its own child of the seed
+      const { passwords, entropyBits } = generateFromRequest(
+        mixed?.data ?? seedResult.data,
+        request
+      );
 
       setResult({
-        password,
+        mode,
+        passwords,
+        entropyBits,
         seed: seedResult.data,
+        source: seedResult.src,
+        localEntropy: mixed?.localEntropy ?? null,
+        verification: seedResult.verification,
         usedFallback: seedResult.usedFallback,
+        rejections: seedResult.rejections ?? [],
+        receipt: createReceipt(
+          request,
+          seedResult,
+          mixed?.localEntropy ?? null
+        ),
       });
     } catch (err: unknown) {
       const apiError = err as ApiError;
@@ -129,26 +353,155 @@ export default function Home() {
     }
   };
 
-  const handleCopy = async () => {
-    if (result?.password) {
-      try {
-        await navigator.clipboard.writeText(result.password);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      } catch {
-        console.error("Failed to copy password");
-      }
+  const handleDownloadReceipt = () => {
+    if (!result) return;
+    // Passwords only end up in the receipt when explicitly requested
+    const receipt: GenerationReceipt = includePasswordsInReceipt
+      ? { ...result.receipt, passwords: result.passwords }
+      : result.receipt;
+    downloadJson(
+      `cosmic-cipher-receipt-${receipt.createdAt.replace(/[:.]/g, "-")}.json`,
+      receipt
+    );
+  };
+
+  const handleApplyPolicy = (policy: PasswordPolicy | null) => {
+    setActivePolicy(policy);
+    setError(null);
+    if (!policy) return;
+    const params = policyToParams(policy);
+    setFormData({
+      length: params.length,
+      minUpper: params.minUpper,
+      minLower: params.minLower,
+      minNumbers: params.minNumbers,
+      minSymbols: params.minSymbols,
+    });
+    setCharacterTypes({
+      uppercase: policy.includeUpper,
+      lowercase: policy.includeLower,
+      numbers: policy.includeNumbers,
+      symbols: policy.includeSymbols,
+    });
+    setCharsetOptions({
+      symbols: policy.symbols ?? CHARSETS.symbols,
+      excludeAmbiguous: policy.excludeAmbiguous ?? true,
+      excludeChars: policy.forbiddenChars ?? "",
+      customCharset: policy.customCharset ?? "",
+    });
+    setRuleOptions((prev) => ({
+      ...prev,
+      startWithLetter: policy.startWithLetter ?? false,
+      maxRepeat: policy.maxRepeat ?? 0,
+      noSequences: policy.noSequences ?? false,
+    }));
+  };
+
+  const handleExportPolicy = () => {
+    const policy = paramsToPolicy(
+      passwordParams,
+      activePolicy?.name ?? "Custom policy"
+    );
+    if (!activePolicy) {
+      downloadJson("password-policy.json", policy);
+      return;
+    }
+
+    // Keep the requirements of the active policy rather than pinning the
+    // length. Minimums that policyToParams only raised to cover the required
+    // character types are not requirements of their own.
+    const generated = policyToParams(activePolicy);
+    const minimums = (
+      ["minUpper", "minLower", "minNumbers", "minSymbols"] as const
+    ).map((key) => [
+      key,
+      policy[key] === generated[key] ? activePolicy[key] : policy[key],
+    ]);
+    downloadJson("password-policy.json", {
+      ...policy,
+      ...Object.fromEntries(minimums),
+      description: activePolicy.description,
+      minLength: activePolicy.minLength,
+      maxLength: activePolicy.maxLength,
+      minCharacterTypes: activePolicy.minCharacterTypes,
+      allowedChars: activePolicy.allowedChars,
+    });
+  };
+
+  const handleCopy = async (text: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedKey(key);
+      setTimeout(() => setCopiedKey(null), 2000);
+    } catch {
+      console.error("Failed to copy password");
     }
   };
 
+  // Estimating the share of passwords the rules accept draws thousands of
+  // candidates, so it runs on a deferred copy of the settings, once per
+  // change, and its result is shared by the validation and entropy below
+  const acceptanceKey =
+    mode === "password" ? JSON.stringify(passwordParams) : "";
+  const deferredAcceptanceKey = useDeferredValue(acceptanceKey);
+  const ruleAcceptance = useMemo((): number | Error | undefined => {
+    if (!deferredAcceptanceKey) return undefined;
+    try {
+      return estimateRuleAcceptance(JSON.parse(deferredAcceptanceKey));
+    } catch (err: unknown) {
+      return err as Error;
+    }
+  }, [deferredAcceptanceKey]);
+  const acceptance =
+    typeof ruleAcceptance === "number" ? ruleAcceptance : undefined;
+
   // Calculate total minimum requirements ONLY for selected character types
   const totalMin =
-    (characterTypes.uppercase ? formData.minUpper : 0) +
-    (characterTypes.lowercase ? formData.minLower : 0) +
-    (characterTypes.numbers ? formData.minNumbers : 0) +
-    (characterTypes.symbols ? formData.minSymbols : 0);
-  const isValid =
-    totalMin <= formData.length && Object.values(characterTypes).some(Boolean);
+    passwordParams.minUpper +
+    passwordParams.minLower +
+    passwordParams.minNumbers +
+    passwordParams.minSymbols;
+  const getValidationError = (): string | null => {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATION_COUNT) {
+      return `Number of ${modeNoun(mode).toLowerCase()}s must be between 1 and ${MAX_GENERATION_COUNT}`;
+    }
+    // Passphrase and BIP39 options cannot be set to invalid values
+    if (mode === "passphrase" || mode === "bip39") return null;
+    if (mode !== "password") {
+      try {
+        if (mode === "mask") validateMaskParams(maskParams);
+        else if (mode === "pronounceable") {
+          validatePronounceableParams(pronounceableParams);
+        } else validateSecretParams(secretParams);
+        return null;
+      } catch (err: unknown) {
+        return (err as Error).message;
+      }
+    }
+    if (!Object.values(includedTypes).some(Boolean)) {
+      return customClasses
+        ? "None of the selected character types are in the custom characters"
+        : "Please select at least one character type";
+    }
+    if (totalMin > formData.length) {
+      return "Minimum requirements exceed password length";
+    }
+    try {
+      if (activePolicy) validatePolicyLength(activePolicy, formData.length);
+      if (ruleAcceptance instanceof Error) throw ruleAcceptance;
+      validateGenerationWork(passwordParams, count, acceptance);
+      return null;
+    } catch (err: unknown) {
+      return (err as Error).message;
+    }
+  };
+  const validationError = getValidationError();
+  const isValid = validationError === null;
+
+  // Live entropy estimate for the current settings
+  const entropyBits = !isValid
+    ? null
+    : estimateRequestEntropy(generationRequest, acceptance);
 
   return (
     <div className="relative min-h-screen bg-gradient-to-br from-[#0A0B1A] via-[#1C2526] to-[#0A0B1A] overflow-hidden text-white">
@@ -172,215 +525,528 @@ export default function Home() {
               </p>
             </CardHeader>
             <CardContent className="space-y-6">
-              {/* Password Length */}
-              <div className="space-y-2">
-                <Label htmlFor="length" className="text-white">
-                  Password Length: {formData.length}
-                </Label>
-                <Slider
-                  id="length"
-                  value={[formData.length]}
-                  onValueChange={(value) =>
-                    handleInputChange("length", value[0])
-                  }
-                  max={32}
-                  min={8}
-                  step={1}
-                  className="w-full"
-                />
+              {/* Mode Switch */}
+              <div className="grid grid-cols-3 gap-2 p-1 bg-black/20 rounded-lg border border-white/10">
+                {GENERATOR_MODES.map((option) => (
+                  <Button
+                    key={option.value}
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setMode(option.value)}
+                    className={
+                      mode === option.value
+                        ? "px-2 bg-[#FCD501] text-black hover:bg-yellow-400"
+                        : "px-2 text-white hover:bg-white/10"
+                    }
+                  >
+                    {option.label}
+                  </Button>
+                ))}
               </div>
 
-              {/* Character Type Selection */}
-              <div className="space-y-3">
-                <Label className="text-white text-sm font-medium">
-                  Include Character Types:
-                </Label>
-                <div className="grid grid-cols-2 gap-3">
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="uppercase"
-                      checked={characterTypes.uppercase}
-                      onCheckedChange={(checked: boolean | "indeterminate") =>
-                        handleCharacterTypeChange("uppercase", checked === true)
-                      }
-                      className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
-                    />
-                    <Label htmlFor="uppercase" className="text-white text-sm">
-                      A-Z (Uppercase)
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="lowercase"
-                      checked={characterTypes.lowercase}
-                      onCheckedChange={(checked: boolean | "indeterminate") =>
-                        handleCharacterTypeChange("lowercase", checked === true)
-                      }
-                      className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
-                    />
-                    <Label htmlFor="lowercase" className="text-white text-sm">
-                      a-z (Lowercase)
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="numbers"
-                      checked={characterTypes.numbers}
-                      onCheckedChange={(checked: boolean | "indeterminate") =>
-                        handleCharacterTypeChange("numbers", checked === true)
-                      }
-                      className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
-                    />
-                    <Label htmlFor="numbers" className="text-white text-sm">
-                      0-9 (Numbers)
+              {mode === "password" ? (
+                <>
+                  {/* Policy Preset */}
+                  <PolicyPicker
+                    policy={activePolicy}
+                    onApply={handleApplyPolicy}
+                    onExport={handleExportPolicy}
+                    onError={setError}
+                  />
+                  <p className="-mt-4 text-right text-xs">
+                    <Link
+                      href="/check"
+                      className="text-gray-400 hover:text-[#FCD501] underline"
+                    >
+                      Check an existing password
+                    </Link>
+                  </p>
+
+                  {/* Password Length */}
+                  <div className="space-y-2">
+                    <Label htmlFor="length" className="text-white">
+                      Password Length: {formData.length}
                     </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="symbols"
-                      checked={characterTypes.symbols}
-                      onCheckedChange={(checked: boolean | "indeterminate") =>
-                        handleCharacterTypeChange("symbols", checked === true)
+                    <Slider
+                      id="length"
+                      value={[formData.length]}
+                      onValueChange={(value) =>
+                        handleInputChange("length", value[0])
                       }
-                      className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                      max={Math.min(
+                        activePolicy?.maxLength ?? MAX_PASSWORD_LENGTH,
+                        MAX_PASSWORD_LENGTH
+                      )}
+                      min={activePolicy?.minLength ?? 8}
+                      step={1}
+                      className="w-full"
                     />
-                    <Label htmlFor="symbols" className="text-white text-sm">
-                      !@#$%^&* (Symbols)
-                    </Label>
                   </div>
-                </div>
-              </div>
 
-              {/* Minimum Requirements - now inside Accordion */}
-              <Accordion type="single" collapsible className="w-full">
-                <AccordionItem value="advanced-options">
-                  <AccordionTrigger className="text-white text-sm font-medium flex justify-start items-center gap-2">
-                    Advanced Options
-                    <span className="flex items-center ml-2">
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <Info
-                            className="w-4 h-4 text-gray-300 hover:text-[#FCD501] cursor-pointer"
-                            aria-label="What are minimum requirements?"
-                            tabIndex={0}
-                          />
-                        </TooltipTrigger>
-                        <TooltipContent
-                          side="top"
-                          className="max-w-xs text-white bg-black/90 border border-white/20"
-                        >
-                          Enter the minimum number of characters for each of
-                          these categories. The password will include at least
-                          this many of each type if possible.
-                        </TooltipContent>
-                      </Tooltip>
-                    </span>
-                  </AccordionTrigger>
-                  <AccordionContent>
-                    <div className="grid grid-cols-2 gap-4 mt-2">
-                      <div className="space-y-2">
-                        <Label
-                          htmlFor="minUpper"
-                          className="text-white text-sm"
-                        >
-                          Uppercase Letters
-                        </Label>
-                        <Input
-                          id="minUpper"
-                          type="number"
-                          value={formData.minUpper}
-                          onChange={(e) =>
-                            handleInputChange(
-                              "minUpper",
-                              parseInt(e.target.value) || 0
+                  {/* Character Type Selection */}
+                  <div className="space-y-3">
+                    <Label className="text-white text-sm font-medium">
+                      Include Character Types:
+                    </Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="uppercase"
+                          checked={characterTypes.uppercase}
+                          onCheckedChange={(
+                            checked: boolean | "indeterminate"
+                          ) =>
+                            handleCharacterTypeChange(
+                              "uppercase",
+                              checked === true
                             )
                           }
-                          min={0}
-                          max={formData.length}
-                          disabled={!characterTypes.uppercase}
-                          className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                          className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
                         />
-                      </div>
-                      <div className="space-y-2">
                         <Label
-                          htmlFor="minLower"
+                          htmlFor="uppercase"
                           className="text-white text-sm"
                         >
-                          Lowercase Letters
+                          A-Z (Uppercase)
                         </Label>
-                        <Input
-                          id="minLower"
-                          type="number"
-                          value={formData.minLower}
-                          onChange={(e) =>
-                            handleInputChange(
-                              "minLower",
-                              parseInt(e.target.value) || 0
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="lowercase"
+                          checked={characterTypes.lowercase}
+                          onCheckedChange={(
+                            checked: boolean | "indeterminate"
+                          ) =>
+                            handleCharacterTypeChange(
+                              "lowercase",
+                              checked === true
                             )
                           }
-                          min={0}
-                          max={formData.length}
-                          disabled={!characterTypes.lowercase}
-                          className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                          className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
                         />
-                      </div>
-                      <div className="space-y-2">
                         <Label
-                          htmlFor="minNumbers"
+                          htmlFor="lowercase"
                           className="text-white text-sm"
                         >
-                          Numbers
+                          a-z (Lowercase)
                         </Label>
-                        <Input
-                          id="minNumbers"
-                          type="number"
-                          value={formData.minNumbers}
-                          onChange={(e) =>
-                            handleInputChange(
-                              "minNumbers",
-                              parseInt(e.target.value) || 0
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="numbers"
+                          checked={characterTypes.numbers}
+                          onCheckedChange={(
+                            checked: boolean | "indeterminate"
+                          ) =>
+                            handleCharacterTypeChange(
+                              "numbers",
+                              checked === true
                             )
                           }
-                          min={0}
-                          max={formData.length}
-                          disabled={!characterTypes.numbers}
-                          className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                          className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
                         />
-                      </div>
-                      <div className="space-y-2">
-                        <Label
-                          htmlFor="minSymbols"
-                          className="text-white text-sm"
-                        >
-                          Symbols
+                        <Label htmlFor="numbers" className="text-white text-sm">
+                          0-9 (Numbers)
                         </Label>
-                        <Input
-                          id="minSymbols"
-                          type="number"
-                          value={formData.minSymbols}
-                          onChange={(e) =>
-                            handleInputChange(
-                              "minSymbols",
-                              parseInt(e.target.value) || 0
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="symbols"
+                          checked={characterTypes.symbols}
+                          onCheckedChange={(
+                            checked: boolean | "indeterminate"
+                          ) =>
+                            handleCharacterTypeChange(
+                              "symbols",
+                              checked === true
                             )
                           }
-                          min={0}
-                          max={formData.length}
-                          disabled={!characterTypes.symbols}
-                          className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                          className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
                         />
+                        <Label htmlFor="symbols" className="text-white text-sm">
+                          !@#$%^&* (Symbols)
+                        </Label>
                       </div>
                     </div>
-                  </AccordionContent>
-                </AccordionItem>
-              </Accordion>
+                  </div>
+
+                  {/* Minimum Requirements - now inside Accordion */}
+                  <Accordion type="single" collapsible className="w-full">
+                    <AccordionItem value="advanced-options">
+                      <AccordionTrigger className="text-white text-sm font-medium flex justify-start items-center gap-2">
+                        Advanced Options
+                        <span className="flex items-center ml-2">
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Info
+                                className="w-4 h-4 text-gray-300 hover:text-[#FCD501] cursor-pointer"
+                                aria-label="What are minimum requirements?"
+                                tabIndex={0}
+                              />
+                            </TooltipTrigger>
+                            <TooltipContent
+                              side="top"
+                              className="max-w-xs text-white bg-black/90 border border-white/20"
+                            >
+                              Enter the minimum number of characters for each of
+                              these categories. The password will include at
+                              least this many of each type if possible.
+                            </TooltipContent>
+                          </Tooltip>
+                        </span>
+                      </AccordionTrigger>
+                      <AccordionContent>
+                        <div className="grid grid-cols-2 gap-4 mt-2">
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="minUpper"
+                              className="text-white text-sm"
+                            >
+                              Uppercase Letters
+                            </Label>
+                            <Input
+                              id="minUpper"
+                              type="number"
+                              value={formData.minUpper}
+                              onChange={(e) =>
+                                handleInputChange(
+                                  "minUpper",
+                                  parseInt(e.target.value) || 0
+                                )
+                              }
+                              min={0}
+                              max={formData.length}
+                              disabled={!includedTypes.uppercase}
+                              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="minLower"
+                              className="text-white text-sm"
+                            >
+                              Lowercase Letters
+                            </Label>
+                            <Input
+                              id="minLower"
+                              type="number"
+                              value={formData.minLower}
+                              onChange={(e) =>
+                                handleInputChange(
+                                  "minLower",
+                                  parseInt(e.target.value) || 0
+                                )
+                              }
+                              min={0}
+                              max={formData.length}
+                              disabled={!includedTypes.lowercase}
+                              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="minNumbers"
+                              className="text-white text-sm"
+                            >
+                              Numbers
+                            </Label>
+                            <Input
+                              id="minNumbers"
+                              type="number"
+                              value={formData.minNumbers}
+                              onChange={(e) =>
+                                handleInputChange(
+                                  "minNumbers",
+                                  parseInt(e.target.value) || 0
+                                )
+                              }
+                              min={0}
+                              max={formData.length}
+                              disabled={!includedTypes.numbers}
+                              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="minSymbols"
+                              className="text-white text-sm"
+                            >
+                              Symbols
+                            </Label>
+                            <Input
+                              id="minSymbols"
+                              type="number"
+                              value={formData.minSymbols}
+                              onChange={(e) =>
+                                handleInputChange(
+                                  "minSymbols",
+                                  parseInt(e.target.value) || 0
+                                )
+                              }
+                              min={0}
+                              max={formData.length}
+                              disabled={!includedTypes.symbols}
+                              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                            />
+                          </div>
+                        </div>
+
+                        {/* Character Rules */}
+                        <div className="space-y-4 mt-6">
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="symbolSet"
+                              className="text-white text-sm"
+                            >
+                              Symbol Set
+                            </Label>
+                            <Input
+                              id="symbolSet"
+                              value={charsetOptions.symbols}
+                              onChange={(e) =>
+                                handleCharsetOptionChange(
+                                  "symbols",
+                                  e.target.value
+                                )
+                              }
+                              disabled={!characterTypes.symbols}
+                              className="font-mono bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20 disabled:opacity-50"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="excludeChars"
+                              className="text-white text-sm"
+                            >
+                              Exclude These Characters
+                            </Label>
+                            <Input
+                              id="excludeChars"
+                              value={charsetOptions.excludeChars}
+                              onChange={(e) =>
+                                handleCharsetOptionChange(
+                                  "excludeChars",
+                                  e.target.value
+                                )
+                              }
+                              placeholder="e.g. ~{}[]<>"
+                              className="font-mono bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="customCharset"
+                              className="text-white text-sm"
+                            >
+                              Only Use These Characters
+                            </Label>
+                            <Input
+                              id="customCharset"
+                              value={charsetOptions.customCharset}
+                              onChange={(e) =>
+                                handleCharsetOptionChange(
+                                  "customCharset",
+                                  e.target.value
+                                )
+                              }
+                              placeholder="Leave empty to use the selected types"
+                              className="font-mono bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+                            />
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="excludeAmbiguous"
+                              checked={charsetOptions.excludeAmbiguous}
+                              onCheckedChange={(
+                                checked: boolean | "indeterminate"
+                              ) =>
+                                handleCharsetOptionChange(
+                                  "excludeAmbiguous",
+                                  checked === true
+                                )
+                              }
+                              className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                            />
+                            <Label
+                              htmlFor="excludeAmbiguous"
+                              className="text-white text-sm"
+                            >
+                              Exclude ambiguous characters (
+                              <span className="font-mono">
+                                {AMBIGUOUS_CHARS.split("").join(" ")}
+                              </span>
+                              )
+                            </Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="startWithLetter"
+                              checked={ruleOptions.startWithLetter}
+                              onCheckedChange={(
+                                checked: boolean | "indeterminate"
+                              ) =>
+                                handleRuleOptionChange(
+                                  "startWithLetter",
+                                  checked === true
+                                )
+                              }
+                              className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                            />
+                            <Label
+                              htmlFor="startWithLetter"
+                              className="text-white text-sm"
+                            >
+                              Start with a letter
+                            </Label>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="noSequences"
+                              checked={ruleOptions.noSequences}
+                              onCheckedChange={(
+                                checked: boolean | "indeterminate"
+                              ) =>
+                                handleRuleOptionChange(
+                                  "noSequences",
+                                  checked === true
+                                )
+                              }
+                              className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                            />
+                            <Label
+                              htmlFor="noSequences"
+                              className="text-white text-sm"
+                            >
+                              No sequences (
+                              <span className="font-mono">abc 321 qwe</span>)
+                            </Label>
+                          </div>
+                          <div className="flex items-center justify-between gap-4">
+                            <Label
+                              htmlFor="maxRepeat"
+                              className="text-white text-sm"
+                            >
+                              Max identical characters in a row (0 = no limit)
+                            </Label>
+                            <Input
+                              id="maxRepeat"
+                              type="number"
+                              value={ruleOptions.maxRepeat}
+                              onChange={(e) =>
+                                handleRuleOptionChange(
+                                  "maxRepeat",
+                                  parseInt(e.target.value) || 0
+                                )
+                              }
+                              min={0}
+                              className="w-20 bg-white/10 border-white/20 text-white focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label
+                              htmlFor="username"
+                              className="text-white text-sm"
+                            >
+                              Must Not Contain Username
+                            </Label>
+                            <Input
+                              id="username"
+                              value={ruleOptions.username}
+                              onChange={(e) =>
+                                handleRuleOptionChange(
+                                  "username",
+                                  e.target.value
+                                )
+                              }
+                              placeholder={`At least ${MIN_USERNAME_LENGTH} characters to apply`}
+                              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+                            />
+                          </div>
+                        </div>
+                      </AccordionContent>
+                    </AccordionItem>
+                  </Accordion>
+                </>
+              ) : mode === "passphrase" ? (
+                <PassphraseOptions
+                  value={passphraseParams}
+                  onChange={setPassphraseParams}
+                />
+              ) : mode === "mask" ? (
+                <MaskOptions value={maskParams} onChange={setMaskParams} />
+              ) : mode === "pronounceable" ? (
+                <PronounceableOptions
+                  value={pronounceableParams}
+                  onChange={setPronounceableParams}
+                />
+              ) : mode === "secret" ? (
+                <SecretOptions
+                  value={secretParams}
+                  onChange={setSecretParams}
+                />
+              ) : (
+                <Bip39Options
+                  value={bip39Params}
+                  onChange={setBip39Params}
+                  mixLocalEntropy={mixLocalEntropy}
+                />
+              )}
+
+              {/* Batch Size */}
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="count" className="text-white text-sm">
+                  Number of {modeNoun(mode).toLowerCase()}s
+                </Label>
+                <Input
+                  id="count"
+                  type="number"
+                  value={count}
+                  onChange={(e) => setCount(parseInt(e.target.value) || 0)}
+                  min={1}
+                  max={MAX_GENERATION_COUNT}
+                  className="w-28 bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+                />
+              </div>
+
+              {/* Local Entropy Mixing */}
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="mixLocalEntropy"
+                  checked={mixLocalEntropy}
+                  onCheckedChange={(checked: boolean | "indeterminate") =>
+                    setMixLocalEntropy(checked === true)
+                  }
+                  className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                />
+                <Label htmlFor="mixLocalEntropy" className="text-white text-sm">
+                  Mix with local entropy (recommended)
+                </Label>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info
+                      className="w-4 h-4 text-gray-300 hover:text-[#FCD501] cursor-pointer"
+                      aria-label="What is local entropy mixing?"
+                      tabIndex={0}
+                    />
+                  </TooltipTrigger>
+                  <TooltipContent
+                    side="top"
+                    className="max-w-xs text-white bg-black/90 border border-white/20"
+                  >
+                    Combines the cosmic seed with random bytes from your browser
+                    through HKDF-SHA256, so neither source alone determines the
+                    password.
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+
+              {/* Strength Meter */}
+              {entropyBits !== null && <StrengthMeter bits={entropyBits} />}
 
               {/* Validation Messages */}
               {!isValid && (
                 <div className="text-red-400 text-sm text-center">
-                  {!Object.values(characterTypes).some(Boolean)
-                    ? "Please select at least one character type"
-                    : "Minimum requirements exceed password length"}
+                  {validationError}
                 </div>
               )}
 
@@ -398,7 +1064,7 @@ export default function Home() {
                 ) : (
                   <div className="flex items-center gap-2">
                     <Sparkles className="w-4 h-4" />
-                    Generate Password
+                    Generate {modeNoun(mode)}
                   </div>
                 )}
               </Button>
@@ -416,49 +1082,208 @@ export default function Home() {
                   <div className="bg-white/5 p-4 rounded-lg border border-white/10">
                     <div className="flex items-center justify-between">
                       <Label className="text-white text-sm font-medium">
-                        Generated Password
+                        Generated {modeNoun(result.mode)}
+                        {result.passwords.length > 1 &&
+                          `s (${result.passwords.length})`}
                       </Label>
                       <Button
-                        onClick={handleCopy}
+                        onClick={() =>
+                          handleCopy(result.passwords.join("\n"), "all")
+                        }
                         size="sm"
                         variant="ghost"
                         className="text-[#FCD501] hover:text-yellow-300 hover:bg-yellow-400/10"
                       >
                         <Copy className="w-4 h-4" />
-                        {copied ? "Copied!" : "Copy"}
+                        {copiedKey === "all"
+                          ? "Copied!"
+                          : result.passwords.length > 1
+                            ? "Copy All"
+                            : "Copy"}
                       </Button>
                     </div>
-                    <div className="mt-2 p-3 bg-black/20 rounded border border-white/10">
-                      <code className="text-green-400 font-mono text-sm break-all">
-                        {result.password}
-                      </code>
-                    </div>
+                    {result.passwords.length === 1 ? (
+                      <div className="mt-2 p-3 bg-black/20 rounded border border-white/10">
+                        <code className="text-green-400 font-mono text-sm break-all">
+                          {result.passwords[0]}
+                        </code>
+                      </div>
+                    ) : (
+                      <ol className="mt-2 max-h-80 overflow-y-auto divide-y divide-white/5 bg-black/20 rounded border border-white/10">
+                        {result.passwords.map((password, index) => (
+                          <li
+                            key={index}
+                            className="flex items-center gap-3 px-3 py-1.5"
+                          >
+                            <span className="w-8 text-right text-xs text-gray-500 font-mono">
+                              {index + 1}
+                            </span>
+                            <code className="flex-1 text-green-400 font-mono text-sm break-all">
+                              {password}
+                            </code>
+                            <Button
+                              onClick={() => handleCopy(password, `${index}`)}
+                              size="sm"
+                              variant="ghost"
+                              aria-label={`Copy password ${index + 1}`}
+                              className="text-[#FCD501] hover:text-yellow-300 hover:bg-yellow-400/10"
+                            >
+                              {copiedKey === `${index}` ? (
+                                "Copied!"
+                              ) : (
+                                <Copy className="w-4 h-4" />
+                              )}
+                            </Button>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    <p className="mt-2 text-xs text-gray-400">
+                      Theoretical entropy: {result.entropyBits.toFixed(1)} bits
+                      {result.passwords.length > 1 && " each"}
+                    </p>
+                    {result.passwords.length > 1 && (
+                      <p className="mt-1 text-xs text-gray-400 break-all">
+                        All {result.passwords.length} were derived from seed{" "}
+                        <span className="font-mono text-gray-300">
+                          {result.seed.slice(0, 16)}…
+                        </span>{" "}
+                        · {SIGNATURE_LABELS[result.verification.status]}
+                      </p>
+                    )}
                   </div>
 
-                  {/* Seed Dropdown */}
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button
-                        variant="outline"
-                        className="w-full border-white/20 text-white hover:bg-white/10 hover:border-[#FCD501]"
+                  {/* Seed Dropdown and Signature Status */}
+                  <div className="flex items-center gap-3">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="flex-1 border-white/20 text-white hover:bg-white/10 hover:border-[#FCD501]"
+                        >
+                          <Eye className="w-4 h-4 mr-2" />
+                          View Seed
+                          <ChevronDown className="w-4 h-4 ml-2" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent className="w-full bg-black/90 border-white/20 backdrop-blur-md">
+                        <DropdownMenuItem className="text-xs font-mono text-gray-300 p-3">
+                          <div className="break-all">{result.seed}</div>
+                        </DropdownMenuItem>
+                        {result.localEntropy && (
+                          <DropdownMenuItem className="text-xs font-mono text-gray-300 p-3">
+                            <div className="break-all">
+                              Local entropy: {result.localEntropy}
+                            </div>
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <div
+                          className={`flex items-center gap-1 text-xs ${
+                            result.verification.status === "verified"
+                              ? "text-green-400"
+                              : "text-yellow-400"
+                          }`}
+                          tabIndex={0}
+                        >
+                          {result.verification.status === "verified" ? (
+                            <ShieldCheck className="w-4 h-4" />
+                          ) : (
+                            <ShieldAlert className="w-4 h-4" />
+                          )}
+                          {SIGNATURE_LABELS[result.verification.status]}
+                          {result.verification.fingerprint && (
+                            <span className="font-mono text-gray-400">
+                              {result.verification.fingerprint.slice(0, 11)}
+                            </span>
+                          )}
+                        </div>
+                      </TooltipTrigger>
+                      <TooltipContent
+                        side="top"
+                        className="max-w-xs text-white bg-black/90 border border-white/20"
                       >
-                        <Eye className="w-4 h-4 mr-2" />
-                        View Seed
-                        <ChevronDown className="w-4 h-4 ml-2" />
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent className="w-full bg-black/90 border-white/20 backdrop-blur-md">
-                      <DropdownMenuItem className="text-xs font-mono text-gray-300 p-3">
-                        <div className="break-all">{result.seed}</div>
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
+                        <div className="font-mono break-all">
+                          {result.verification.algo || "none"}
+                          {result.verification.fingerprint &&
+                            ` · ${result.verification.fingerprint}`}
+                        </div>
+                      </TooltipContent>
+                    </Tooltip>
+                  </div>
+
+                  {/* Receipt */}
+                  <div className="flex flex-wrap items-center gap-3">
+                    <Button
+                      onClick={handleDownloadReceipt}
+                      variant="outline"
+                      className="border-white/20 text-white hover:bg-white/10 hover:border-[#FCD501]"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download Receipt
+                    </Button>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="includePasswordsInReceipt"
+                        checked={includePasswordsInReceipt}
+                        onCheckedChange={(checked: boolean | "indeterminate") =>
+                          setIncludePasswordsInReceipt(checked === true)
+                        }
+                        className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+                      />
+                      <Label
+                        htmlFor="includePasswordsInReceipt"
+                        className="text-white text-sm"
+                      >
+                        Include passwords
+                      </Label>
+                    </div>
+                    <Link
+                      href="/verify"
+                      className="ml-auto text-xs text-gray-400 hover:text-[#FCD501] underline"
+                    >
+                      Verify a receipt
+                    </Link>
+                  </div>
+                  <p className="-mt-2 text-xs text-yellow-400">
+                    A receipt contains the seed, the local entropy and every
+                    setting, which is enough to regenerate these passwords even
+                    when they are left out. Keep it as safe as the passwords.
+                  </p>
+
+                  {/* Entropy Sources */}
+                  <div className="text-xs text-gray-400 text-center">
+                    Entropy sources:{" "}
+                    {`${result.usedFallback ? "Fallback to " : ""}${
+                      SEED_SOURCE_LABELS[result.source] ?? "Orbitport cTRNG"
+                    } (${result.source})`}
+                    {result.localEntropy && " + local browser CSPRNG"}
+                  </div>
 
                   {/* Fallback Warning */}
                   {result.usedFallback && (
                     <div className="text-yellow-400 text-sm text-center bg-yellow-900/20 p-3 rounded-lg border border-yellow-500/20">
                       ⚠️ Using fallback random generation (Orbitport API
                       unavailable)
+                      {result.rejections.map(({ provider, reason }) => (
+                        <div
+                          key={provider}
+                          className="text-xs text-yellow-300/80 mt-1"
+                        >
+                          {provider}: {reason}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Test Provider Warning */}
+                  {result.source === "test" && (
+                    <div className="text-red-400 text-sm text-center bg-red-900/20 p-3 rounded-lg border border-red-500/20">
+                      ⚠️ Generated from a deterministic test seed. These
+                      passwords are predictable, do not use them.
                     </div>
                   )}
                 </div>
@@ -0,0 +1,204 @@
+"use client";
+
+import { ChangeEvent, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ShieldAlert, ShieldCheck, Upload } from "lucide-react";
+import { Starfield } from "@/components/starfield";
+import { findPasswordInReceipt, parseReceipt } from "@/lib/receipt";
+import { ReceiptVerification } from "@/types/receipt";
+
+const basePath = process.env.NEXT_PUBLIC_BASE_PATH || "";
+
+const SIGNATURE_MESSAGES: Record<
+  ReceiptVerification["signature"]["status"],
+  string
+> = {
+  verified: "Seed signature verified against a pinned Orbitport key",
+  unpinned:
+    "Seed signature matches its own key, but no Orbitport keys are pinned, so its origin is unproven",
+  untrusted: "Seed was signed by a key that is not trusted",
+  invalid: "Seed signature is invalid",
+  unsupported: "Seed signature uses an unsupported algorithm",
+  unsigned: "Seed is unsigned (local or test entropy)",
+};
+
+export default function VerifyPage() {
+  const [receiptText, setReceiptText] = useState("");
+  const [password, setPassword] = useState("");
+  const [result, setResult] = useState<ReceiptVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setReceiptText(await file.text());
+  };
+
+  const handleVerify = async () => {
+    setIsLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(receiptText);
+      } catch {
+        throw new Error("Receipt is not valid JSON");
+      }
+
+      // The generation is re-run here, so the password and local entropy
+      // never leave the browser. Only the seed is sent for the signature
+      // check against the pinned keys.
+      const receipt = parseReceipt(body);
+      const index = findPasswordInReceipt(receipt, password);
+
+      const response = await fetch(`${basePath}/api/verify`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ seed: receipt.seed }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to verify seed signature");
+      }
+      setResult({ match: index !== null, index, signature: data });
+    } catch (err: unknown) {
+      setError((err as Error).message || "Failed to verify receipt");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Without pinned keys a valid signature only matches the key the seed
+  // advertises itself, so only a pinned key is trusted
+  const signatureTrusted = result?.signature.status === "verified";
+
+  return (
+    <div className="relative min-h-screen bg-gradient-to-br from-[#0A0B1A] via-[#1C2526] to-[#0A0B1A] overflow-hidden text-white">
+      <Starfield className="absolute inset-0 overflow-hidden" />
+      <div className="relative z-10 flex flex-col items-center justify-center min-h-screen py-20">
+        <div className="w-full max-w-2xl mx-auto p-4 sm:p-6 lg:p-8">
+          <Card className="backdrop-blur-md bg-white/10 border-white/20 shadow-2xl">
+            <CardHeader className="text-center">
+              <CardTitle className="text-2xl font-bold text-white">
+                Verify a Receipt
+              </CardTitle>
+              <p className="text-gray-300 text-sm">
+                Re-run a generation from its receipt and check that a password
+                was produced by it
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="receipt" className="text-white">
+                    Receipt JSON
+                  </Label>
+                  <Label
+                    htmlFor="receiptFile"
+                    className="flex items-center gap-1 text-xs text-[#FCD501] hover:text-yellow-300 cursor-pointer"
+                  >
+                    <Upload className="w-3 h-3" />
+                    Load file
+                  </Label>
+                  <input
+                    id="receiptFile"
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleFile}
+                    className="hidden"
+                  />
+                </div>
+                <textarea
+                  id="receipt"
+                  value={receiptText}
+                  onChange={(e) => setReceiptText(e.target.value)}
+                  rows={10}
+                  spellCheck={false}
+                  className="w-full rounded-md bg-black/20 border border-white/20 p-3 font-mono text-xs text-gray-200 focus:outline-none focus:border-[#FCD501]"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-white">
+                  Password
+                </Label>
+                <Input
+                  id="password"
+                  type="text"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  spellCheck={false}
+                  autoComplete="off"
+                  className="bg-black/20 border-white/20 text-white font-mono"
+                />
+              </div>
+
+              <Button
+                onClick={handleVerify}
+                disabled={isLoading || !receiptText || !password}
+                className="w-full bg-[#FCD501] text-black hover:bg-yellow-400"
+              >
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+
+              {error && (
+                <div className="text-red-400 text-sm text-center bg-red-900/20 p-3 rounded-lg border border-red-500/20">
+                  {error}
+                </div>
+              )}
+
+              {result && (
+                <div className="space-y-3">
+                  <div
+                    className={`text-sm text-center p-3 rounded-lg border ${
+                      result.match
+                        ? "text-green-400 bg-green-900/20 border-green-500/20"
+                        : "text-red-400 bg-red-900/20 border-red-500/20"
+                    }`}
+                  >
+                    {result.match
+                      ? `Match: the receipt produces this password${
+                          result.index !== null
+                            ? ` (#${result.index + 1} of the batch)`
+                            : ""
+                        }`
+                      : "No match: the receipt does not produce this password"}
+                  </div>
+                  <div
+                    className={`flex items-center justify-center gap-2 text-xs ${
+                      signatureTrusted ? "text-green-400" : "text-yellow-400"
+                    }`}
+                  >
+                    {signatureTrusted ? (
+                      <ShieldCheck className="w-4 h-4" />
+                    ) : (
+                      <ShieldAlert className="w-4 h-4" />
+                    )}
+                    {SIGNATURE_MESSAGES[result.signature.status]}
+                  </div>
+                  {result.signature.fingerprint && (
+                    <p className="text-center text-xs text-gray-400 font-mono break-all">
+                      {result.signature.algo} · {result.signature.fingerprint}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <p className="text-center text-xs text-gray-400">
+                <Link href="/" className="hover:text-[#FCD501] underline">
+                  Back to the generator
+                </Link>
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
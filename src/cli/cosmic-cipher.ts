@@ -0,0 +1,382 @@
+import { parseArgs } from "util";
+import { mixSeedWithLocalEntropy } from "@/lib/entropy-mixing";
+import { fetchRandomSeed } from "@/lib/entropy-provider";
+import {
+  DEFAULT_BIP39_PARAMS,
+  DEFAULT_MASK_PARAMS,
+  DEFAULT_SECRET_PARAMS,
+  generateFromRequest,
+  parseGenerationRequest,
+} from "@/lib/generation-request";
+import { splitCustomCharset } from "@/lib/password-generator";
+import { createReceipt } from "@/lib/receipt";
+import { SECRET_FORMATS } from "@/lib/secret-generator";
+import { RandomSeedResponse } from "@/types/orbitport";
+
+type CliMode =
+  | "password"
+  | "passphrase"
+  | "pin"
+  | "mask"
+  | "pronounceable"
+  | "secret"
+  | "bip39";
+type SeedSource = "orbitport" | "api";
+
+const CLI_MODES: CliMode[] = [
+  "password",
+  "passphrase",
+  "pin",
+  "mask",
+  "pronounceable",
+  "secret",
+  "bip39",
+];
+
+const DEFAULT_PIN_LENGTH = 6;
+const DEFAULT_API_URL = "http://localhost:3000";
+
+const USAGE = `Usage: cosmic-cipher [options]
+
+Generates passwords from cosmic randomness.
+
+Modes:
+  -m, --mode <mode>          password (default), passphrase, pin, mask,
+                             pronounceable, secret or bip39
+  -n, --count <n>            number of passwords to generate (default 1)
+
+Password options:
+  -l, --length <n>           password length (default 16, PIN 6)
+  --min-upper <n>            minimum uppercase letters (default 2)
+  --min-lower <n>            minimum lowercase letters (default 2)
+  --min-numbers <n>          minimum numbers (default 2)
+  --min-symbols <n>          minimum symbols (default 2)
+  --no-upper, --no-lower, --no-numbers, --no-symbols
+                             leave out a character type
+  --symbols <chars>          custom symbol set
+  --allow-ambiguous          keep look-alike characters (O0Il1)
+  --exclude <chars>          characters to leave out
+  --charset <chars>          use exactly these characters
+  --start-with-letter        require a letter as the first character
+  --max-repeat <n>           at most n identical characters in a row
+                             (also for PINs)
+  --no-sequences             reject runs like abc, 321 or qwe (also for PINs)
+  --username <name>          reject passwords containing this name
+
+Passphrase options:
+  -w, --words <n>            number of words (default 6)
+  --separator <text>         word separator (default "-")
+  --capitalization <style>   lower, upper, title or random
+  --add-number               append a digit to a random word
+  --add-symbol               append a symbol to a random word
+
+Mask options:
+  --mask <mask>              template such as "Cvcc-9999-Cvcc" or
+                             "[A-Z]{4}-[0-9]{6}": A upper, a lower, 9 digit,
+                             # symbol, C/c consonant, V/v vowel, [..] custom
+                             set, {n} repeat, \\x literal x (default
+                             "${DEFAULT_MASK_PARAMS.mask}")
+
+Pronounceable options:
+  -l, --length <n>           password length (default 12)
+  --min-upper, --min-numbers, --min-symbols <n>
+                             exact number of uppercase letters, digits and
+                             symbols (default 1, 2 and 0)
+
+Secret options:
+  --format <format>          ${SECRET_FORMATS.join(", ")}
+                             (default ${DEFAULT_SECRET_PARAMS.format})
+  --bytes <n>                random bytes to encode (default
+                             ${DEFAULT_SECRET_PARAMS.bytes}, not for uuid or ulid)
+
+BIP39 options:
+  -w, --words <n>            12, 15, 18, 21 or 24 words (default ${DEFAULT_BIP39_PARAMS.wordCount})
+  For wallets holding real funds, go offline once the seed is fetched, and
+  keep --json receipts as safe as the mnemonic: they recreate it.
+
+Seed options:
+  --source <source>          orbitport (default) to call Orbitport with the
+                             ORBITPORT_* environment variables, or api to use
+                             a running instance's /api/random
+  --url <url>                instance URL for --source api
+                             (default ${DEFAULT_API_URL})
+  --no-mix                   do not mix in local entropy
+
+Output:
+  --json                     print the passwords, their provenance and a
+                             receipt as JSON
+  --receipt-passwords        include the passwords in the JSON receipt
+  -h, --help                 show this help
+`;
+
+const OPTIONS = {
+  mode: { type: "string", short: "m" },
+  count: { type: "string", short: "n" },
+  length: { type: "string", short: "l" },
+  "min-upper": { type: "string" },
+  "min-lower": { type: "string" },
+  "min-numbers": { type: "string" },
+  "min-symbols": { type: "string" },
+  "no-upper": { type: "boolean" },
+  "no-lower": { type: "boolean" },
+  "no-numbers": { type: "boolean" },
+  "no-symbols": { type: "boolean" },
+  symbols: { type: "string" },
+  "allow-ambiguous": { type: "boolean" },
+  exclude: { type: "string" },
+  charset: { type: "string" },
+  "start-with-letter": { type: "boolean" },
+  "max-repeat": { type: "string" },
+  "no-sequences": { type: "boolean" },
+  username: { type: "string" },
+  words: { type: "string", short: "w" },
+  separator: { type: "string" },
+  capitalization: { type: "string" },
+  "add-number": { type: "boolean" },
+  "add-symbol": { type: "boolean" },
+  mask: { type: "string" },
+  format: { type: "string" },
+  bytes: { type: "string" },
+  source: { type: "string" },
+  url: { type: "string" },
+  "no-mix": { type: "boolean" },
+  json: { type: "boolean" },
+  "receipt-passwords": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>;
+
+/**
+ * Parses an integer option, leaving it unset when absent.
+ * @throws Error if the value is not an integer.
+ */
+function readInteger(value: string | undefined, name: string) {
+  if (value === undefined) return undefined;
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`--${name} must be an integer`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Maps the command line options onto a request body in the format accepted
+ * by `POST /api/password`, so the CLI shares its defaults and validation.
+ */
+function buildRequestBody(
+  mode: CliMode,
+  values: CliValues["values"]
+): Record<string, unknown> {
+  const count = readInteger(values.count, "count");
+
+  if (mode === "pin") {
+    // A PIN is a digits-only password; ambiguous digits are valid PIN digits
+    return {
+      mode: "password",
+      count,
+      length: readInteger(values.length, "length") ?? DEFAULT_PIN_LENGTH,
+      minUpper: 0,
+      minLower: 0,
+      minNumbers: 0,
+      minSymbols: 0,
+      includeUpper: false,
+      includeLower: false,
+      includeNumbers: true,
+      includeSymbols: false,
+      excludeAmbiguous: false,
+      maxRepeat: readInteger(values["max-repeat"], "max-repeat"),
+      noSequences: values["no-sequences"],
+    };
+  }
+
+  if (mode === "pronounceable") {
+    return {
+      mode,
+      count,
+      length: readInteger(values.length, "length"),
+      minUpper: readInteger(values["min-upper"], "min-upper"),
+      minNumbers: readInteger(values["min-numbers"], "min-numbers"),
+      minSymbols: readInteger(values["min-symbols"], "min-symbols"),
+    };
+  }
+
+  if (mode === "mask") {
+    return { mode, count, mask: values.mask };
+  }
+
+  if (mode === "secret") {
+    return {
+      mode,
+      count,
+      format: values.format,
+      bytes: readInteger(values.bytes, "bytes"),
+    };
+  }
+
+  if (mode === "bip39") {
+    return { mode, count, wordCount: readInteger(values.words, "words") };
+  }
+
+  if (mode === "passphrase") {
+    return {
+      mode,
+      count,
+      wordCount: readInteger(values.words, "words"),
+      separator: values.separator,
+      capitalization: values.capitalization,
+      includeNumber: values["add-number"],
+      includeSymbol: values["add-symbol"],
+    };
+  }
+
+  // Options for excluded types, and for types missing from --charset,
+  // default to zero, so --no-symbols works without also passing
+  // --min-symbols 0
+  const custom =
+    values.charset !== undefined ? splitCustomCharset(values.charset) : null;
+  const minimum = (value: string | undefined, name: string, off?: boolean) =>
+    readInteger(value, name) ?? (off ? 0 : undefined);
+  return {
+    mode,
+    count,
+    length: readInteger(values.length, "length"),
+    minUpper: minimum(
+      values["min-upper"],
+      "min-upper",
+      values["no-upper"] || custom?.uppercase === ""
+    ),
+    minLower: minimum(
+      values["min-lower"],
+      "min-lower",
+      values["no-lower"] || custom?.lowercase === ""
+    ),
+    minNumbers: minimum(
+      values["min-numbers"],
+      "min-numbers",
+      values["no-numbers"] || custom?.numbers === ""
+    ),
+    minSymbols: minimum(
+      values["min-symbols"],
+      "min-symbols",
+      values["no-symbols"] || custom?.symbols === ""
+    ),
+    includeUpper: !values["no-upper"],
+    includeLower: !values["no-lower"],
+    includeNumbers: !values["no-numbers"],
+    includeSymbols: !values["no-symbols"],
+    symbols: values.symbols,
+    excludeAmbiguous: !values["allow-ambiguous"],
+    excludeChars: values.exclude,
+    customCharset: values.charset,
+    startWithLetter: values["start-with-letter"],
+    maxRepeat: readInteger(values["max-repeat"], "max-repeat"),
+    noSequences: values["no-sequences"],
+    username: values.username,
+  };
+}
+
+/**
+ * Fetches a seed from a running instance's `/api/random`.
+ * @throws Error if the instance is unreachable or rejects the request.
+ */
+async function fetchSeedFromApi(url: string): Promise<RandomSeedResponse> {
+  const response = await fetch(`${url.replace(/\/$/, "")}/api/random`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      body.message || `Failed to get random seed: ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param args - Command line arguments without the node and script paths.
+ * @returns The process exit code.
+ */
+export async function main(args: string[]): Promise<number> {
+  let values: CliValues["values"];
+  try {
+    ({ values } = parseArgs({ args, options: OPTIONS, strict: true }));
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    const mode = (values.mode ?? "password") as CliMode;
+    if (!CLI_MODES.includes(mode)) {
+      throw new Error(
+        `--mode must be one of ${CLI_MODES.map((m) => `"${m}"`).join(", ")}`
+      );
+    }
+    const source = (values.source ?? "orbitport") as SeedSource;
+    if (source !== "orbitport" && source !== "api") {
+      throw new Error('--source must be "orbitport" or "api"');
+    }
+
+    const request = parseGenerationRequest(buildRequestBody(mode, values));
+
+    // A one-shot process has no use for prefetched seeds
+    process.env.ENTROPY_POOL_SIZE ??= "0";
+    const seed =
+      source === "api"
+        ? await fetchSeedFromApi(values.url ?? DEFAULT_API_URL)
+        : await fetchRandomSeed();
+
+    const mixed = values["no-mix"] ? null : mixSeedWithLocalEntropy(seed.data);
+    const { passwords, entropyBits } = generateFromRequest(
+      mixed?.data ?? seed.data,
+      request
+    );
+
+    if (values.json) {
+      const { usedFallback, ...seedInfo } = seed;
+      console.log(
+        JSON.stringify(
+          {
+            mode,
+            passwords,
+            entropyBits,
+            seed: seedInfo,
+            localEntropy: mixed?.localEntropy ?? null,
+            usedFallback,
+            receipt: createReceipt(
+              request,
+              seed,
+              mixed?.localEntropy ?? null,
+              values["receipt-passwords"] ? passwords : undefined
+            ),
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      for (const password of passwords) console.log(password);
+    }
+
+    if (mode === "bip39" && !mixed) {
+      console.error(
+        "Warning: without local entropy mixing, anyone who saw the seed can recreate this mnemonic"
+      );
+    }
+    if (seed.usedFallback) {
+      console.error(
+        `Warning: Orbitport unavailable, used fallback entropy (${seed.src})`
+      );
+    }
+    return 0;
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return 1;
+  }
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { MNEMONIC_WORD_COUNTS, MnemonicParams } from "@/lib/mnemonic-generator";
+
+export const Bip39Options = ({
+  value,
+  onChange,
+  mixLocalEntropy,
+}: {
+  value: MnemonicParams;
+  onChange: (value: MnemonicParams) => void;
+  mixLocalEntropy: boolean;
+}) => {
+  return (
+    <div className="space-y-6">
+      {/* Word Count */}
+      <div className="space-y-2">
+        <Label className="text-white">Words</Label>
+        <div className="grid grid-cols-5 gap-2">
+          {MNEMONIC_WORD_COUNTS.map((wordCount) => (
+            <Button
+              key={wordCount}
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ wordCount })}
+              className={
+                value.wordCount === wordCount
+                  ? "bg-[#FCD501] text-black hover:bg-yellow-400"
+                  : "text-white border border-white/10 hover:bg-white/10"
+              }
+            >
+              {wordCount}
+            </Button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400">
+          {(value.wordCount / 3) * 32} bits of entropy plus a{" "}
+          {value.wordCount / 3}-bit checksum, using the BIP39 English wordlist.
+        </p>
+      </div>
+
+      {/* Safety Guidance */}
+      <div className="space-y-2 text-sm text-red-300 bg-red-900/20 p-3 rounded-lg border border-red-500/20">
+        <p className="flex items-center gap-2 font-semibold text-red-400">
+          <ShieldAlert className="w-4 h-4" />A mnemonic controls every fund in
+          its wallet
+        </p>
+        <ul className="list-disc pl-5 space-y-1 text-xs">
+          <li>
+            Use a clean, trusted device. For cold storage, disconnect it from
+            the network as soon as the seed has been fetched, and close the
+            browser before reconnecting.
+          </li>
+          <li>
+            Anyone with the seed and local entropy can recreate the mnemonic. A
+            receipt contains both, so keep it as safe as the mnemonic or do not
+            download it.
+          </li>
+          <li>
+            Write the words down on paper. Never paste them into a website, chat
+            or cloud note, and close this tab when done.
+          </li>
+          {!mixLocalEntropy && (
+            <li className="font-semibold text-red-400">
+              Local entropy mixing is off, so the cosmic seed alone, which
+              Orbitport and the network path also see, determines the mnemonic.
+              Turn it on for wallet use.
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MASK_CLASSES, MaskParams } from "@/lib/mask-generator";
+
+const MASK_EXAMPLES = ["Cvcc-9999-Cvcc", "[A-Z]{4}-[0-9]{6}", "Aaaa9999#"];
+
+const SYNTAX_HELP: [string, string][] = [
+  ...Object.entries(MASK_CLASSES).map(
+    ([placeholder, { label }]): [string, string] => [placeholder, label]
+  ),
+  ["[A-F0-9]", "one of a custom set"],
+  ["{4}", "repeat the previous element"],
+  ["\\A", "a literal A"],
+];
+
+export const MaskOptions = ({
+  value,
+  onChange,
+}: {
+  value: MaskParams;
+  onChange: (value: MaskParams) => void;
+}) => {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="mask" className="text-white">
+          Mask
+        </Label>
+        <Input
+          id="mask"
+          value={value.mask}
+          onChange={(e) => onChange({ mask: e.target.value })}
+          spellCheck={false}
+          autoComplete="off"
+          className="font-mono bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+        />
+        <div className="flex flex-wrap gap-1">
+          {MASK_EXAMPLES.map((example) => (
+            <Button
+              key={example}
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ mask: example })}
+              className="font-mono text-xs text-gray-300 hover:bg-white/10"
+            >
+              {example}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-400">
+        {SYNTAX_HELP.map(([syntax, meaning]) => (
+          <div key={syntax} className="flex gap-2">
+            <dt className="font-mono text-[#FCD501] w-16 shrink-0">{syntax}</dt>
+            <dd>{meaning}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-gray-400">
+        Any other character is copied as is.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_PASSPHRASE_WORDS,
+  MAX_SEPARATOR_LENGTH,
+  MIN_PASSPHRASE_WORDS,
+  PassphraseCapitalization,
+  PassphraseParams,
+} from "@/lib/passphrase-generator";
+
+const CAPITALIZATION_OPTIONS: {
+  value: PassphraseCapitalization;
+  label: string;
+}[] = [
+  { value: "lower", label: "lower" },
+  { value: "title", label: "Title" },
+  { value: "upper", label: "UPPER" },
+  { value: "random", label: "rAndom" },
+];
+
+export const PassphraseOptions = ({
+  value,
+  onChange,
+}: {
+  value: PassphraseParams;
+  onChange: (value: PassphraseParams) => void;
+}) => {
+  const update = (changes: Partial<PassphraseParams>) =>
+    onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-6">
+      {/* Word Count */}
+      <div className="space-y-2">
+        <Label htmlFor="wordCount" className="text-white">
+          Number of Words: {value.wordCount}
+        </Label>
+        <Slider
+          id="wordCount"
+          value={[value.wordCount]}
+          onValueChange={(wordCount) => update({ wordCount: wordCount[0] })}
+          max={MAX_PASSPHRASE_WORDS}
+          min={MIN_PASSPHRASE_WORDS}
+          step={1}
+          className="w-full"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {/* Separator */}
+        <div className="space-y-2">
+          <Label htmlFor="separator" className="text-white text-sm">
+            Separator
+          </Label>
+          <Input
+            id="separator"
+            value={value.separator}
+            onChange={(e) => update({ separator: e.target.value })}
+            maxLength={MAX_SEPARATOR_LENGTH}
+            className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+          />
+        </div>
+
+        {/* Capitalization */}
+        <div className="space-y-2">
+          <Label className="text-white text-sm">Capitalization</Label>
+          <div className="grid grid-cols-4 gap-1">
+            {CAPITALIZATION_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update({ capitalization: option.value })}
+                className={
+                  value.capitalization === option.value
+                    ? "bg-[#FCD501] text-black hover:bg-yellow-400"
+                    : "text-white hover:bg-white/10"
+                }
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Inserts */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="includeNumber"
+            checked={value.includeNumber}
+            onCheckedChange={(checked: boolean | "indeterminate") =>
+              update({ includeNumber: checked === true })
+            }
+            className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+          />
+          <Label htmlFor="includeNumber" className="text-white text-sm">
+            Insert a digit
+          </Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="includeSymbol"
+            checked={value.includeSymbol}
+            onCheckedChange={(checked: boolean | "indeterminate") =>
+              update({ includeSymbol: checked === true })
+            }
+            className="border-white/20 data-[state=checked]:bg-[#FCD501] data-[state=checked]:border-[#FCD501]"
+          />
+          <Label htmlFor="includeSymbol" className="text-white text-sm">
+            Insert a symbol
+          </Label>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+"use client";
+
+import { ChangeEvent, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Download, FileText, Upload } from "lucide-react";
+import {
+  parsePolicy,
+  PasswordPolicy,
+  POLICY_PRESETS,
+  PolicyPresetId,
+} from "@/lib/policy";
+
+export const PolicyPicker = ({
+  policy,
+  onApply,
+  onExport,
+  onError,
+  placeholder = "Custom",
+}: {
+  policy: PasswordPolicy | null;
+  onApply: (policy: PasswordPolicy | null) => void;
+  /** Offers exporting the current settings when given. */
+  onExport?: () => void;
+  onError: (message: string) => void;
+  /** Label shown while no policy is selected. */
+  placeholder?: string;
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow importing the same file again after editing it
+    event.target.value = "";
+    if (!file) return;
+    try {
+      onApply(parsePolicy(JSON.parse(await file.text())));
+    } catch (error) {
+      onError(
+        error instanceof SyntaxError
+          ? "Policy file is not valid JSON"
+          : (error as Error).message
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className="w-full justify-between border-white/20 text-white hover:bg-white/10 hover:border-[#FCD501]"
+          >
+            <span className="flex items-center">
+              <FileText className="w-4 h-4 mr-2" />
+              Policy: {policy?.name ?? placeholder}
+            </span>
+            <ChevronDown className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-72 bg-black/90 border-white/20 backdrop-blur-md text-white">
+          {(Object.keys(POLICY_PRESETS) as PolicyPresetId[]).map((id) => (
+            <DropdownMenuItem
+              key={id}
+              onSelect={() => onApply(POLICY_PRESETS[id])}
+              className="flex flex-col items-start"
+            >
+              <span>{POLICY_PRESETS[id].name}</span>
+              <span className="text-xs text-gray-400">
+                {POLICY_PRESETS[id].description}
+              </span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator className="bg-white/10" />
+          <DropdownMenuItem onSelect={() => fileInput.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import policy JSON…
+          </DropdownMenuItem>
+          {onExport && (
+            <DropdownMenuItem onSelect={onExport}>
+              <Download className="w-4 h-4 mr-2" />
+              Export current settings as JSON
+            </DropdownMenuItem>
+          )}
+          {policy && (
+            <DropdownMenuItem onSelect={() => onApply(null)}>
+              Clear policy
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      {policy && (
+        <p className="text-xs text-gray-400">
+          {policy.description && `${policy.description} · `}
+          Length {policy.minLength}-{policy.maxLength}
+        </p>
+      )}
+    </div>
+  );
+};
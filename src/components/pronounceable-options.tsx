@@ -0,0 +1,77 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  MAX_PRONOUNCEABLE_LENGTH,
+  MIN_PRONOUNCEABLE_LENGTH,
+  PronounceableParams,
+} from "@/lib/pronounceable-generator";
+
+const COUNT_FIELDS: {
+  key: "minUpper" | "minNumbers" | "minSymbols";
+  label: string;
+}[] = [
+  { key: "minUpper", label: "Uppercase" },
+  { key: "minNumbers", label: "Digits" },
+  { key: "minSymbols", label: "Symbols" },
+];
+
+export const PronounceableOptions = ({
+  value,
+  onChange,
+}: {
+  value: PronounceableParams;
+  onChange: (value: PronounceableParams) => void;
+}) => {
+  const update = (changes: Partial<PronounceableParams>) =>
+    onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-6">
+      {/* Length */}
+      <div className="space-y-2">
+        <Label htmlFor="pronounceableLength" className="text-white">
+          Password Length: {value.length}
+        </Label>
+        <Slider
+          id="pronounceableLength"
+          value={[value.length]}
+          onValueChange={(length) => update({ length: length[0] })}
+          max={MAX_PRONOUNCEABLE_LENGTH}
+          min={MIN_PRONOUNCEABLE_LENGTH}
+          step={1}
+          className="w-full"
+        />
+        <p className="text-xs text-gray-400">
+          Alternating consonants and vowels, easy to read aloud. Expect far less
+          entropy than a random password of the same length.
+        </p>
+      </div>
+
+      {/* Inserts */}
+      <div className="grid grid-cols-3 gap-4">
+        {COUNT_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-2">
+            <Label
+              htmlFor={`pronounceable-${key}`}
+              className="text-white text-sm"
+            >
+              {label}
+            </Label>
+            <Input
+              id={`pronounceable-${key}`}
+              type="number"
+              value={value[key]}
+              onChange={(e) => update({ [key]: parseInt(e.target.value) || 0 })}
+              min={0}
+              max={value.length}
+              className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-[#FCD501] focus:ring-[#FCD501]/20"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
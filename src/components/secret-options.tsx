@@ -0,0 +1,96 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  isByteFormat,
+  MAX_SECRET_BYTES,
+  MIN_SECRET_BYTES,
+  SecretFormat,
+  SecretParams,
+} from "@/lib/secret-generator";
+
+const FORMAT_OPTIONS: { value: SecretFormat; label: string; hint: string }[] = [
+  { value: "hex", label: "Hex", hint: "Lowercase hexadecimal" },
+  { value: "base64", label: "Base64", hint: "Standard base64, padded" },
+  {
+    value: "base64url",
+    label: "Base64url",
+    hint: "URL and filename safe base64, unpadded",
+  },
+  { value: "base32", label: "Base32", hint: "RFC 4648 base32, unpadded" },
+  {
+    value: "base58",
+    label: "Base58",
+    hint: "Bitcoin alphabet, without 0, O, I and l",
+  },
+  {
+    value: "uuid",
+    label: "UUIDv4",
+    hint: "Random UUID with 122 random bits",
+  },
+  {
+    value: "ulid",
+    label: "ULID",
+    hint: "Sortable ID: the current time followed by 80 random bits",
+  },
+];
+
+export const SecretOptions = ({
+  value,
+  onChange,
+}: {
+  value: SecretParams;
+  onChange: (value: SecretParams) => void;
+}) => {
+  const selected = FORMAT_OPTIONS.find(
+    (option) => option.value === value.format
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Format */}
+      <div className="space-y-2">
+        <Label className="text-white">Format</Label>
+        <div className="grid grid-cols-4 gap-2">
+          {FORMAT_OPTIONS.map((option) => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange({ ...value, format: option.value })}
+              className={
+                value.format === option.value
+                  ? "bg-[#FCD501] text-black hover:bg-yellow-400"
+                  : "text-white border border-white/10 hover:bg-white/10"
+              }
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        {selected && <p className="text-xs text-gray-400">{selected.hint}</p>}
+      </div>
+
+      {/* Size */}
+      {isByteFormat(value.format) && (
+        <div className="space-y-2">
+          <Label htmlFor="secretBytes" className="text-white">
+            Size: {value.bytes} bytes ({value.bytes * 8} bits)
+          </Label>
+          <Slider
+            id="secretBytes"
+            value={[value.bytes]}
+            onValueChange={(bytes) => onChange({ ...value, bytes: bytes[0] })}
+            max={MAX_SECRET_BYTES}
+            min={MIN_SECRET_BYTES}
+            step={1}
+            className="w-full"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
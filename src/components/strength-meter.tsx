@@ -0,0 +1,83 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import {
+  estimateCrackTimes,
+  formatDuration,
+  getStrengthLevel,
+  StrengthLevel,
+} from "@/lib/strength";
+
+const LEVELS: Record<
+  StrengthLevel,
+  { label: string; barClassName: string; textClassName: string }
+> = {
+  weak: {
+    label: "Weak",
+    barClassName: "bg-red-500",
+    textClassName: "text-red-400",
+  },
+  fair: {
+    label: "Fair",
+    barClassName: "bg-orange-400",
+    textClassName: "text-orange-300",
+  },
+  strong: {
+    label: "Strong",
+    barClassName: "bg-[#FCD501]",
+    textClassName: "text-[#FCD501]",
+  },
+  "very-strong": {
+    label: "Very strong",
+    barClassName: "bg-green-500",
+    textClassName: "text-green-400",
+  },
+};
+
+/** Entropy at which the meter is full. */
+const FULL_SCALE_BITS = 128;
+
+export const StrengthMeter = ({
+  bits,
+  className,
+}: {
+  bits: number;
+  className?: string;
+}) => {
+  const level = LEVELS[getStrengthLevel(bits)];
+  const fill = Math.min(100, (bits / FULL_SCALE_BITS) * 100);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span className={cn("font-medium", level.textClassName)}>
+          {level.label}
+        </span>
+        <span className="text-gray-300 font-mono text-xs">
+          {bits.toFixed(1)} bits of entropy
+        </span>
+      </div>
+      <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
+        <div
+          className={cn(
+            "h-full transition-all duration-300",
+            level.barClassName
+          )}
+          style={{ width: `${fill}%` }}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-400">
+        {estimateCrackTimes(bits).map(({ attacker, seconds }) => (
+          <div
+            key={attacker.name}
+            className="flex justify-between gap-2"
+            title={attacker.description}
+          >
+            <span>{attacker.name}</span>
+            <span className="text-gray-300">{formatDuration(seconds)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
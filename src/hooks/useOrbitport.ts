@@ -1,12 +1,30 @@
 import { useCallback } from "react";
+import { createLocalSeedResponse } from "@/lib/local-entropy";
 import { RandomSeedResponse } from "@/types/orbitport";
 
 const basePath = process.env.NEXT_PUBLIC_BASE_PATH || "";
 
 export function useOrbitport() {
   const getRandomSeed = useCallback(async (): Promise<RandomSeedResponse> => {
+    let response: Response;
     try {
-      const response = await fetch(`${basePath}/api/random`);
+      response = await fetch(`${basePath}/api/random`);
+    } catch (error) {
+      // The API route itself is unreachable, fall back to the browser CSPRNG
+      console.warn("Random seed API unreachable, using local fallback:", error);
+      return createLocalSeedResponse();
+    }
+
+    try {
+      if (response.status === 429) {
+        const retryAfter = response.headers.get("Retry-After");
+        throw new Error(
+          retryAfter
+            ? `You're generating passwords too quickly. Please wait ${retryAfter} seconds and try again.`
+            : "You're generating passwords too quickly. Please wait a moment and try again."
+        );
+      }
+
       if (!response.ok) {
         throw new Error("Failed to get random seed");
       }
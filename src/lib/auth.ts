@@ -1,64 +1,42 @@
-import { NextRequest, NextResponse } from "next/server";
-import crypto from "crypto";
-import * as cookie from "cookie";
-
-const AUTH_SECRET = (
-  process.env.AUTH_SECRET || "dev_secret_32_bytes_long_for_demo"
-)
-  .padEnd(32, "!")
-  .slice(0, 32);
-const COOKIE_NAME = "orbitport_token";
-const TOKEN_EXPIRE_BUFFER = 60; // Refresh token if expiring within this buffer
+const TOKEN_EXPIRE_BUFFER = 60; // Never use a token expiring within this buffer
+const TOKEN_REFRESH_AHEAD = 300; // Refresh in the background within this window
+const TOKEN_REQUEST_TIMEOUT_MS = 10000; // Refreshes are shared, so never hang
 
 interface TokenData {
   access_token: string;
   exp: number;
 }
 
-/**
- * Encrypts a string using AES-256-GCM encryption.
- *
- * @param text - The plaintext string to encrypt.
- * @returns The encrypted string in the format: iv.tag.encrypted
- */
-function encrypt(text: string): string {
-  const iv = crypto.randomBytes(12);
-  const cipher = crypto.createCipheriv(
-    "aes-256-gcm",
-    Buffer.from(AUTH_SECRET),
-    iv
-  );
-  let encrypted = cipher.update(text, "utf8", "base64");
-  encrypted += cipher.final("base64");
-  const tag = cipher.getAuthTag();
-  return `${iv.toString("base64")}.${tag.toString("base64")}.${encrypted}`;
+export interface OrbitportCredentials {
+  apiUrl: string;
+  authUrl: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface TokenCache {
+  /**
+   * Retrieves a valid access token, requesting a new one if it is missing or
+   * about to expire.
+   */
+  getValidToken(): Promise<string | null>;
+  /** Drops the cached token, e.g. after the API rejected it with a 401. */
+  invalidate(): void;
 }
 
 /**
- * Decrypts a string encrypted with AES-256-GCM.
+ * Reads the Orbitport credentials from `ORBITPORT_API_URL`,
+ * `ORBITPORT_AUTH_URL`, `ORBITPORT_CLIENT_ID` and `ORBITPORT_CLIENT_SECRET`.
  *
- * @param data - The encrypted string to decrypt (format: iv.tag.encrypted).
- * @returns The decrypted plaintext string, or null if decryption fails.
+ * @returns The credentials, or null if any of them is missing.
  */
-function decrypt(data: string | undefined): string | null {
-  if (!data) return null;
-  try {
-    const [ivB64, tagB64, encrypted] = data.split(".");
-    if (!ivB64 || !tagB64 || !encrypted) return null;
-    const iv = Buffer.from(ivB64, "base64");
-    const tag = Buffer.from(tagB64, "base64");
-    const decipher = crypto.createDecipheriv(
-      "aes-256-gcm",
-      Buffer.from(AUTH_SECRET),
-      iv
-    );
-    decipher.setAuthTag(tag);
-    let decrypted = decipher.update(encrypted, "base64", "utf8");
-    decrypted += decipher.final("utf8");
-    return decrypted;
-  } catch {
-    return null;
-  }
+export function getOrbitportCredentials(): OrbitportCredentials | null {
+  const apiUrl = process.env.ORBITPORT_API_URL;
+  const authUrl = process.env.ORBITPORT_AUTH_URL;
+  const clientId = process.env.ORBITPORT_CLIENT_ID;
+  const clientSecret = process.env.ORBITPORT_CLIENT_SECRET;
+  if (!apiUrl || !authUrl || !clientId || !clientSecret) return null;
+  return { apiUrl, authUrl, clientId, clientSecret };
 }
 
 /**
@@ -80,54 +58,22 @@ function parseToken(token: string | null): TokenData | null {
   }
 }
 
-/**
- * Retrieves the encrypted token from request cookies.
- * @param req - Next.js App Router request object
- * @returns The encrypted token string, or null if not found
- */
-function getEncryptedTokenFromCookies(req: NextRequest): string | null {
-  return req.cookies.get(COOKIE_NAME)?.value || null;
-}
-
-/**
- * Sets the encrypted access token as an HTTP-only cookie in the response.
- * @param res - Next.js App Router response object
- * @param token - The access token to encrypt and set
- * @param exp - Expiration time (epoch seconds) of the token
- */
-function setEncryptedTokenCookie(
-  res: NextResponse,
-  token: string,
-  exp: number
-): void {
-  const encrypted = encrypt(token);
-  res.cookies.set(COOKIE_NAME, encrypted, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    path: "/",
-    maxAge: exp - Math.floor(Date.now() / 1000),
-  });
-}
-
 /**
  * Requests a new access token from the Orbitport API using client credentials.
  *
+ * @param credentials - The Orbitport client credentials.
  * @returns The access token string, or null if the request fails.
- * @throws Error if required authentication configuration is missing.
  */
-async function generateAccessToken(): Promise<string | null> {
-  const clientId = process.env.ORBITPORT_CLIENT_ID;
-  const clientSecret = process.env.ORBITPORT_CLIENT_SECRET;
-  const authUrl = process.env.ORBITPORT_AUTH_URL;
-  const apiUrl = process.env.ORBITPORT_API_URL;
-  if (!clientId || !clientSecret || !authUrl) {
-    throw new Error("Missing Orbitport authentication configuration");
-  }
-
+async function generateAccessToken({
+  apiUrl,
+  authUrl,
+  clientId,
+  clientSecret,
+}: OrbitportCredentials): Promise<string | null> {
   try {
     const response = await fetch(`${authUrl}/oauth/token`, {
       method: "POST",
+      signal: AbortSignal.timeout(TOKEN_REQUEST_TIMEOUT_MS),
       headers: {
         "Content-Type": "application/json",
       },
@@ -152,53 +98,61 @@ async function generateAccessToken(): Promise<string | null> {
 }
 
 /**
- * Retrieves a valid access token from cookies or generates a new one if expired or missing.
- * Handles encryption/decryption, JWT parsing, and cookie management.
+ * Creates a process-level token cache. The token belongs to this server's
+ * client-credentials grant, so every request can share it. Concurrent
+ * refreshes share a single in-flight OAuth request, and tokens nearing expiry
+ * are refreshed in the background while the cached token is still served.
  *
- * @param req - Next.js App Router request object
- * @param res - Next.js App Router response object
- * @returns The valid access token string, or null if unable to retrieve
+ * @param credentials - The Orbitport client credentials.
+ * @returns The token cache.
  */
-export async function getValidToken(
-  req: NextRequest,
-  res: NextResponse
-): Promise<string | null> {
-  try {
-    const encryptedToken = getEncryptedTokenFromCookies(req);
-    let accessToken: string | null = null;
+export function createTokenCache(
+  credentials: OrbitportCredentials
+): TokenCache {
+  let cachedToken: TokenData | null = null;
+  let pendingRefresh: Promise<TokenData | null> | null = null;
 
-    if (encryptedToken) {
-      const decrypted = decrypt(encryptedToken);
-      const parsed = parseToken(decrypted);
-      if (parsed) {
-        const now = Math.floor(Date.now() / 1000);
-        // Only use token if not expired and not about to expire
-        if (parsed.exp > now + TOKEN_EXPIRE_BUFFER) {
-          accessToken = parsed.access_token;
-        } else {
-          console.log("Token expired or about to expire");
+  const refreshToken = (): Promise<TokenData | null> => {
+    if (!pendingRefresh) {
+      pendingRefresh = (async () => {
+        try {
+          const accessToken = await generateAccessToken(credentials);
+          if (!accessToken) {
+            console.error("Failed to get new access token");
+            return null;
+          }
+          const parsed = parseToken(accessToken);
+          if (!parsed) {
+            console.error("Failed to parse new token");
+            return null;
+          }
+          cachedToken = parsed;
+          return parsed;
+        } finally {
+          pendingRefresh = null;
         }
-      }
+      })();
     }
+    return pendingRefresh;
+  };
 
-    // If no valid token, generate a new one
-    if (!accessToken) {
-      accessToken = await generateAccessToken();
-      if (!accessToken) {
-        console.error("Failed to get new access token");
-        return null;
-      }
-      const parsed = parseToken(accessToken);
-      if (!parsed) {
-        console.error("Failed to parse new token");
-        return null;
+  return {
+    async getValidToken() {
+      const now = Math.floor(Date.now() / 1000);
+
+      if (cachedToken && cachedToken.exp > now + TOKEN_EXPIRE_BUFFER) {
+        if (cachedToken.exp <= now + TOKEN_REFRESH_AHEAD) {
+          void refreshToken();
+        }
+        return cachedToken.access_token;
       }
-      setEncryptedTokenCookie(res, accessToken, parsed.exp);
-    }
 
-    return accessToken;
-  } catch (error) {
-    console.error("Error in getValidToken:", error);
-    return null;
-  }
+      const refreshed = await refreshToken();
+      return refreshed?.access_token ?? null;
+    },
+
+    invalidate() {
+      cachedToken = null;
+    },
+  };
 }
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkPolicyCompliance, ComplianceResult } from "@/lib/compliance";
+import {
+  paramsToPolicy,
+  parsePolicy,
+  POLICY_PRESETS,
+  policyToParams,
+  resolvePolicy,
+} from "@/lib/policy";
+
+function failures(results: ComplianceResult[]): string[] {
+  return results.filter((result) => !result.passed).map(({ rule }) => rule);
+}
+
+describe("checkPolicyCompliance", () => {
+  it("accepts characters the generator does not produce", () => {
+    const cases: [keyof typeof POLICY_PRESETS, string][] = [
+      ["nist-800-63b", "correct horse battery staple"],
+      ["entra-id", "Summer.Holiday_2024!"],
+      ["pci-dss", "Winter2024.Long"],
+    ];
+    for (const [id, password] of cases) {
+      assert.deepEqual(
+        failures(checkPolicyCompliance(password, POLICY_PRESETS[id])),
+        [],
+        id
+      );
+    }
+  });
+
+  it("rejects characters outside the accepted set", () => {
+    const results = checkPolicyCompliance(
+      "correct horse battery staplé",
+      POLICY_PRESETS["nist-800-63b"]
+    );
+    assert.deepEqual(failures(results), ["Only allowed characters"]);
+
+    const policy = { ...POLICY_PRESETS["pci-dss"], allowedChars: "abc123" };
+    assert.deepEqual(
+      failures(checkPolicyCompliance("abcabc123123", policy)),
+      []
+    );
+  });
+
+  it("requires the number of character types, not each type", () => {
+    const policy = POLICY_PRESETS["ad-complexity"];
+    assert.deepEqual(failures(checkPolicyCompliance("Abcdefgh12", policy)), []);
+    assert.equal(
+      failures(checkPolicyCompliance("abcdefgh12", policy)).length,
+      1
+    );
+  });
+
+  it("still enforces forbidden characters", () => {
+    const policy = { ...POLICY_PRESETS["pci-dss"], forbiddenChars: "." };
+    assert.equal(
+      failures(checkPolicyCompliance("Winter2024.Long", policy)).length,
+      1
+    );
+  });
+});
+
+describe("policyToParams", () => {
+  it("generates every included type when types are counted", () => {
+    const params = policyToParams(POLICY_PRESETS["ad-complexity"]);
+    assert.deepEqual(
+      [params.minUpper, params.minLower, params.minNumbers, params.minSymbols],
+      [1, 1, 1, 1]
+    );
+  });
+
+  it("keeps a custom pool through export and import", () => {
+    const params = {
+      ...policyToParams(POLICY_PRESETS["nist-800-63b"]),
+      customCharset: "abcdef012345",
+    };
+    const imported = parsePolicy(
+      JSON.parse(JSON.stringify(paramsToPolicy(params, "Hex-ish")))
+    );
+    assert.equal(policyToParams(imported).customCharset, "abcdef012345");
+  });
+});
+
+describe("parsePolicy", () => {
+  it("rejects more required types than included", () => {
+    assert.throws(
+      () =>
+        parsePolicy({
+          ...POLICY_PRESETS["ad-complexity"],
+          includeSymbols: false,
+          includeNumbers: false,
+        }),
+      /minCharacterTypes/
+    );
+  });
+});
+
+describe("resolvePolicy", () => {
+  it("rejects names that are not presets", () => {
+    for (const name of ["toString", "constructor", "__proto__", "nist"]) {
+      assert.throws(() => resolvePolicy(name), /Unknown policy preset/, name);
+    }
+    assert.equal(resolvePolicy("pci-dss"), POLICY_PRESETS["pci-dss"]);
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  ConstraintRule,
+  findRuleViolations,
+  GenerateParams,
+  MAX_PASSWORD_LENGTH,
+  MIN_USERNAME_LENGTH,
+} from "@/lib/password-generator";
+import {
+  CHARACTER_TYPE_COUNT,
+  DEFAULT_ALLOWED_CHARS,
+  PasswordPolicy,
+  policyToParams,
+} from "@/lib/policy";
+
+export interface ComplianceResult {
+  rule: string;
+  passed: boolean;
+  /** What was found, for failed rules. */
+  detail?: string;
+}
+
+/** Requirements of the target system beyond the generator parameters. */
+export interface ComplianceRules {
+  minLength: number;
+  maxLength: number;
+  /** Characters the target system accepts, defaults to printable ASCII. */
+  allowedChars?: string;
+  /** Minimum number of character types the password must contain. */
+  minCharacterTypes?: number;
+}
+
+const CLASS_RULES: {
+  min: keyof GenerateParams;
+  noun: string;
+  pattern: RegExp;
+}[] = [
+  { min: "minUpper", noun: "uppercase letter", pattern: /[A-Z]/ },
+  { min: "minLower", noun: "lowercase letter", pattern: /[a-z]/ },
+  { min: "minNumbers", noun: "number", pattern: /[0-9]/ },
+  { min: "minSymbols", noun: "symbol", pattern: /[^A-Za-z0-9\s]/ },
+];
+
+/**
+ * Describes the optional constraint rules that are set, in a stable order.
+ */
+function describeRules(params: GenerateParams): [ConstraintRule, string][] {
+  const rules: [ConstraintRule, string][] = [];
+  if (params.startWithLetter) {
+    rules.push(["startWithLetter", "Starts with a letter"]);
+  }
+  if (params.maxRepeat !== undefined) {
+    rules.push([
+      "maxRepeat",
+      `No more than ${params.maxRepeat} identical characters in a row`,
+    ]);
+  }
+  if (params.noSequences) {
+    rules.push(["noSequences", "No sequences such as abc, 321 or qwe"]);
+  }
+  if ((params.username?.length ?? 0) >= MIN_USERNAME_LENGTH) {
+    rules.push(["username", "Does not contain the username"]);
+  }
+  return rules;
+}
+
+/**
+ * Formats a list of characters for display, e.g. `"a", " "`.
+ */
+function listChars(chars: Iterable<string>): string {
+  return Array.from(chars)
+    .map((char) => JSON.stringify(char))
+    .join(", ");
+}
+
+/**
+ * Checks an existing password against the rules of a target system: length,
+ * minimum count per class and number of classes, accepted and forbidden
+ * characters, and any optional constraint rules. Runs locally; the password
+ * is never sent anywhere. The generator's own character sets are not
+ * enforced, as the target system usually accepts more than it generates.
+ *
+ * @param password - The password to check.
+ * @param params - The generator parameters, e.g. from a policy.
+ * @param rules - Length range and character requirements, defaults to at
+ * least `params.length` characters of printable ASCII.
+ * @returns One result per rule, in a stable order.
+ */
+export function checkPasswordCompliance(
+  password: string,
+  params: GenerateParams,
+  rules: ComplianceRules = {
+    minLength: params.length,
+    maxLength: MAX_PASSWORD_LENGTH,
+  }
+): ComplianceResult[] {
+  const chars = Array.from(password);
+  const results: ComplianceResult[] = [];
+
+  results.push({
+    rule:
+      rules.maxLength >= MAX_PASSWORD_LENGTH
+        ? `At least ${rules.minLength} characters`
+        : `Between ${rules.minLength} and ${rules.maxLength} characters`,
+    passed: chars.length >= rules.minLength && chars.length <= rules.maxLength,
+    detail: `${chars.length} characters`,
+  });
+
+  let typesFound = 0;
+  for (const { min, noun, pattern } of CLASS_RULES) {
+    const required = params[min] as number;
+    const found = chars.filter((char) => pattern.test(char)).length;
+    if (found > 0) typesFound++;
+    if (required <= 0) continue;
+    results.push({
+      rule: `At least ${required} ${noun}${required === 1 ? "" : "s"}`,
+      passed: found >= required,
+      detail: `${found} found`,
+    });
+  }
+
+  const minTypes = rules.minCharacterTypes ?? 0;
+  if (minTypes > 0) {
+    results.push({
+      rule: `At least ${minTypes} of ${CHARACTER_TYPE_COUNT} character types (uppercase, lowercase, numbers, symbols)`,
+      passed: typesFound >= minTypes,
+      detail: `${typesFound} found`,
+    });
+  }
+
+  const forbidden = new Set(params.excludeChars ?? "");
+  if (forbidden.size > 0) {
+    const found = new Set(chars.filter((char) => forbidden.has(char)));
+    results.push({
+      rule: `None of ${listChars(forbidden)}`,
+      passed: found.size === 0,
+      detail: found.size > 0 ? `Contains ${listChars(found)}` : undefined,
+    });
+  }
+
+  const allowed = new Set(rules.allowedChars ?? DEFAULT_ALLOWED_CHARS);
+  const disallowed = new Set(
+    chars.filter((char) => !allowed.has(char) && !forbidden.has(char))
+  );
+  results.push({
+    rule: "Only allowed characters",
+    passed: disallowed.size === 0,
+    detail:
+      disallowed.size > 0 ? `Not allowed: ${listChars(disallowed)}` : undefined,
+  });
+
+  const violations = findRuleViolations(password, params);
+  for (const [id, rule] of describeRules(params)) {
+    results.push({ rule, passed: !violations.includes(id) });
+  }
+
+  return results;
+}
+
+/**
+ * Checks an existing password against a policy, including its length range,
+ * accepted characters and required number of character types.
+ *
+ * @param password - The password to check.
+ * @param policy - The policy to check against.
+ * @param username - The account name the password must not contain.
+ * @returns One result per rule, in a stable order.
+ */
+export function checkPolicyCompliance(
+  password: string,
+  policy: PasswordPolicy,
+  username?: string
+): ComplianceResult[] {
+  return checkPasswordCompliance(
+    password,
+    {
+      ...policyToParams(policy),
+      // The policy's own minimums, which policyToParams raises for generation
+      minUpper: policy.minUpper,
+      minLower: policy.minLower,
+      minNumbers: policy.minNumbers,
+      minSymbols: policy.minSymbols,
+      username,
+    },
+    policy
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmacDrbg, DRBG_MAX_REQUEST_BYTES } from "@/lib/drbg";
+import { bytesToHex, concatBytes, hexToBytes } from "@/lib/encoding";
+
+/**
+ * NIST CAVP HMAC_DRBG vectors for SHA-256 without prediction resistance:
+ * 256-bit entropy input, 128-bit nonce, no personalization string and 1024
+ * returned bits. The expected output is that of the second generate call.
+ */
+const CAVP_VECTORS: {
+  name: string;
+  entropy: string;
+  nonce: string;
+  additionalInput: [string, string] | null;
+  returnedBits: string;
+}[] = [
+  {
+    name: "COUNT = 0",
+    entropy: "ca851911349384bffe89de1cbdc46e6831e44d34a4fb935ee285dd14b71a7488",
+    nonce: "659ba96c601dc69fc902940805ec0ca8",
+    additionalInput: null,
+    returnedBits:
+      "e528e9abf2dece54d47c7e75e5fe302149f817ea9fb4bee6f4199697d04d5b89" +
+      "d54fbb978a15b5c443c9ec21036d2460b6f73ebad0dc2aba6e624abf07745bc1" +
+      "07694bb7547bb0995f70de25d6b29e2d3011bb19d27676c07162c8b5ccde0668" +
+      "961df86803482cb37ed6d5c0bb8d50cf1f50d476aa0458bdaba806f48be9dcb8",
+  },
+  {
+    name: "COUNT = 1",
+    entropy: "79737479ba4e7642a221fcfd1b820b134e9e3540a35bb48ffae29c20f5418ea3",
+    nonce: "3593259c092bef4129bc2c6c9e19f343",
+    additionalInput: null,
+    returnedBits:
+      "cf5ad5984f9e43917aa9087380dac46e410ddc8a7731859c84e9d0f31bd43655" +
+      "b924159413e2293b17610f211e09f770f172b8fb693a35b85d3b9e5e63b1dc25" +
+      "2ac0e115002e9bedfb4b5b6fd43f33b8e0eafb2d072e1a6fee1f159df9b51e6c" +
+      "8da737e60d5032dd30544ec51558c6f080bdbdab1de8a939e961e06b5f1aca37",
+  },
+  {
+    name: "COUNT = 0, 256-bit additional input",
+    entropy: "d3cc4d1acf3dde0c4bd2290d262337042dc632948223d3a2eaab87da44295fbd",
+    nonce: "0109b0e729f457328aa18569a9224921",
+    additionalInput: [
+      "3c311848183c9a212a26f27f8c6647e40375e466a0857cc39c4e47575d53f1f6",
+      "fcb9abd19ccfbccef88c9c39bfb3dd7b1c12266c9808992e305bc3cff566e4e4",
+    ],
+    returnedBits:
+      "9c7b758b212cd0fcecd5daa489821712e3cdea4467b560ef5ddc24ab47749a1f" +
+      "1ffdbbb118f4e62fcfca3371b8fbfc5b0646b83e06bfbbab5fac30ea09ea2bc7" +
+      "6f1ea568c9be0444b2cc90517b20ca825f2d0eccd88e7175538b85d90ab39018" +
+      "3ca6395535d34473af6b5a5b88f5a59ee7561573337ea819da0dcc3573a22974",
+  },
+  {
+    name: "COUNT = 1, 256-bit additional input",
+    entropy: "f97a3cfd91faa046b9e61b9493d436c4931f604b22f1081521b3419151e8ff06",
+    nonce: "11f3a7d43595357d58120bd1e2dd8aed",
+    additionalInput: [
+      "517289afe444a0fe5ed1a41dbbb5eb17150079bdd31e29cf2ff30034d8268e3b",
+      "88028d29ef80b4e6f0fe12f91d7449fe75062682e89c571440c0c9b52c42a6e0",
+    ],
+    returnedBits:
+      "c6871cff0824fe55ea7689a52229886730450e5d362da5bf590dcf9acd67fed4" +
+      "cb32107df5d03969a66b1f6494fdf5d63d5b4d0d34ea7399a07d0116126d0d51" +
+      "8c7c55ba46e12f62efc8fe28a51c9d428e6d371d7397ab319fc73ded4722e5b4" +
+      "f30004032a6128df5e7497ecf82ca7b0a50e867ef6728a4f509a8c859087039c",
+  },
+];
+
+describe("createHmacDrbg", () => {
+  for (const vector of CAVP_VECTORS) {
+    it(`matches the CAVP vector ${vector.name}`, () => {
+      // The entropy input and nonce are concatenated on instantiation
+      const drbg = createHmacDrbg(
+        concatBytes(hexToBytes(vector.entropy), hexToBytes(vector.nonce))
+      );
+      const length = vector.returnedBits.length / 2;
+      const [first, second] = (vector.additionalInput ?? ["", ""]).map(
+        hexToBytes
+      );
+      drbg.generate(length, first);
+      assert.equal(
+        bytesToHex(drbg.generate(length, second)),
+        vector.returnedBits
+      );
+    });
+  }
+
+  it("reproduces the same stream from the same input", () => {
+    const entropy = hexToBytes("5eed".repeat(16));
+    const a = createHmacDrbg(entropy);
+    const b = createHmacDrbg(entropy);
+    assert.deepEqual(a.generate(100), b.generate(100));
+  });
+
+  it("separates streams by personalization string", () => {
+    const entropy = hexToBytes("5eed".repeat(16));
+    const a = createHmacDrbg(entropy, Uint8Array.of(1));
+    const b = createHmacDrbg(entropy, Uint8Array.of(2));
+    assert.notDeepEqual(a.generate(32), b.generate(32));
+  });
+
+  it("changes the stream on reseed", () => {
+    const entropy = hexToBytes("5eed".repeat(16));
+    const a = createHmacDrbg(entropy);
+    const b = createHmacDrbg(entropy);
+    a.reseed(hexToBytes("ab".repeat(32)));
+    assert.notDeepEqual(a.generate(32), b.generate(32));
+  });
+
+  it("rejects short entropy inputs and oversized requests", () => {
+    assert.throws(() => createHmacDrbg(new Uint8Array(15)));
+    const drbg = createHmacDrbg(new Uint8Array(32));
+    assert.throws(() => drbg.generate(DRBG_MAX_REQUEST_BYTES + 1));
+    assert.throws(() => drbg.reseed(new Uint8Array(15)));
+  });
+});
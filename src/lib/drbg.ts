@@ -0,0 +1,97 @@
+import { concatBytes } from "@/lib/encoding";
+import { hmacSha256 } from "@/lib/sha256";
+
+/** Minimum entropy input, matching the 128-bit security strength. */
+export const DRBG_MIN_ENTROPY_BYTES = 16;
+/** Largest single generate request allowed by SP 800-90A (2^19 bits). */
+export const DRBG_MAX_REQUEST_BYTES = 65536;
+/** Number of generate calls allowed before a reseed is required. */
+export const DRBG_RESEED_INTERVAL = 2 ** 48;
+
+export interface Drbg {
+  /**
+   * Produces the next `length` pseudorandom bytes.
+   * @throws Error if the request is too large or a reseed is required.
+   */
+  generate(length: number, additionalInput?: Uint8Array): Uint8Array;
+  /**
+   * Mixes fresh entropy into the internal state and resets the reseed counter.
+   */
+  reseed(entropy: Uint8Array, additionalInput?: Uint8Array): void;
+}
+
+/**
+ * Creates an HMAC_DRBG (NIST SP 800-90A, HMAC-SHA256) instance.
+ *
+ * The output is fully determined by the entropy input and personalization
+ * string, so the same cosmic seed always reproduces the same byte stream for
+ * audits, while never repeating seed material however many bytes are drawn.
+ *
+ * @param entropy - The entropy input, e.g. the cTRNG seed bytes.
+ * @param personalization - Optional domain separation string.
+ * @returns The DRBG instance.
+ * @throws Error if the entropy input is too short.
+ */
+export function createHmacDrbg(
+  entropy: Uint8Array,
+  personalization: Uint8Array = new Uint8Array(0)
+): Drbg {
+  let key: Uint8Array = new Uint8Array(32);
+  let value: Uint8Array = new Uint8Array(32).fill(0x01);
+  let reseedCounter = 1;
+
+  const update = (providedData: Uint8Array) => {
+    key = hmacSha256(
+      key,
+      concatBytes(value, Uint8Array.of(0x00), providedData)
+    );
+    value = hmacSha256(key, value);
+    if (providedData.length === 0) return;
+    key = hmacSha256(
+      key,
+      concatBytes(value, Uint8Array.of(0x01), providedData)
+    );
+    value = hmacSha256(key, value);
+  };
+
+  const checkEntropy = (input: Uint8Array) => {
+    if (input.length < DRBG_MIN_ENTROPY_BYTES) {
+      throw new Error(
+        `DRBG entropy input must be at least ${DRBG_MIN_ENTROPY_BYTES} bytes`
+      );
+    }
+  };
+
+  checkEntropy(entropy);
+  update(concatBytes(entropy, personalization));
+
+  return {
+    generate(length, additionalInput = new Uint8Array(0)) {
+      if (length > DRBG_MAX_REQUEST_BYTES) {
+        throw new Error(
+          `DRBG requests are limited to ${DRBG_MAX_REQUEST_BYTES} bytes`
+        );
+      }
+      if (reseedCounter > DRBG_RESEED_INTERVAL) {
+        throw new Error("DRBG reseed required");
+      }
+      if (additionalInput.length > 0) update(additionalInput);
+
+      const output = new Uint8Array(length);
+      for (let offset = 0; offset < length; offset += value.length) {
+        value = hmacSha256(key, value);
+        output.set(value.subarray(0, length - offset), offset);
+      }
+
+      update(additionalInput);
+      reseedCounter++;
+      return output;
+    },
+
+    reseed(freshEntropy, additionalInput = new Uint8Array(0)) {
+      checkEntropy(freshEntropy);
+      update(concatBytes(freshEntropy, additionalInput));
+      reseedCounter = 1;
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  bytesToBase32,
+  bytesToBase58,
+  bytesToBase64,
+  bytesToBase64Url,
+  bytesToHex,
+  hexToBytes,
+  utf8ToBytes,
+} from "@/lib/encoding";
+
+describe("hex", () => {
+  it("round-trips every byte value", () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    assert.deepEqual(hexToBytes(bytesToHex(bytes)), bytes);
+    assert.equal(bytesToHex(Uint8Array.of(0, 15, 255)), "000fff");
+  });
+
+  it("rejects malformed hex", () => {
+    for (const hex of ["abc", "zz", "0x00"]) {
+      assert.throws(() => hexToBytes(hex));
+    }
+  });
+});
+
+describe("base encodings", () => {
+  // RFC 4648 section 10 test vectors
+  const vectors: [string, string, string][] = [
+    ["", "", ""],
+    ["f", "Zg==", "MY"],
+    ["fo", "Zm8=", "MZXQ"],
+    ["foo", "Zm9v", "MZXW6"],
+    ["foob", "Zm9vYg==", "MZXW6YQ"],
+    ["fooba", "Zm9vYmE=", "MZXW6YTB"],
+    ["foobar", "Zm9vYmFy", "MZXW6YTBOI"],
+  ];
+
+  for (const [text, base64, base32] of vectors) {
+    it(`encodes "${text}" as RFC 4648 base64 and base32`, () => {
+      assert.equal(bytesToBase64(utf8ToBytes(text)), base64);
+      assert.equal(bytesToBase32(utf8ToBytes(text)), base32);
+    });
+  }
+
+  it("uses the URL-safe alphabet without padding for base64url", () => {
+    const bytes = Uint8Array.of(0xfb, 0xff, 0xbf, 0xfe);
+    assert.equal(bytesToBase64(bytes), "+/+//g==");
+    assert.equal(bytesToBase64Url(bytes), "-_-__g");
+  });
+
+  it("encodes base58 with leading zero bytes as 1", () => {
+    assert.equal(
+      bytesToBase58(utf8ToBytes("Hello World!")),
+      "2NEpo7TZRRrLZSi2U"
+    );
+    assert.equal(
+      bytesToBase58(
+        hexToBytes("00eb15231dfceb60925886b67d065299925915aeb172c06647")
+      ),
+      "1NS17iag9jJgTHD1VXjvLCEnZuQ3rJDE9L"
+    );
+    assert.equal(bytesToBase58(hexToBytes("0000287fb4cd")), "11233QC4");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Encodes bytes as a lowercase hex string.
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    ""
+  );
+}
+
+/**
+ * Decodes a hex string into bytes.
+ *
+ * @param hex - The hex string, with an even number of digits.
+ * @returns The decoded bytes.
+ * @throws Error if the string is not valid hex.
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (typeof hex !== "string" || !/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Error("Invalid hex string");
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes a string as UTF-8 bytes.
+ */
+export function utf8ToBytes(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+/**
+ * Concatenates byte arrays.
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64URL_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+/** RFC 4648 base32 alphabet. */
+export const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+/** Crockford's base32 alphabet, used by ULIDs. */
+export const CROCKFORD_BASE32_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+/** Bitcoin's base58 alphabet, without 0, O, I and l. */
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Encodes bytes with a power-of-two alphabet, most significant bit first.
+ * The last character is padded with zero bits.
+ */
+function encodeBits(bytes: Uint8Array, alphabet: string): string {
+  const bitsPerChar = Math.log2(alphabet.length);
+  const mask = alphabet.length - 1;
+  let result = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= bitsPerChar) {
+      bits -= bitsPerChar;
+      result += alphabet[(buffer >> bits) & mask];
+    }
+    // Keep only the bits that are still pending
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) {
+    result += alphabet[(buffer << (bitsPerChar - bits)) & mask];
+  }
+  return result;
+}
+
+/**
+ * Encodes bytes as standard base64 with `=` padding (RFC 4648 section 4).
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const encoded = encodeBits(bytes, BASE64_ALPHABET);
+  return encoded + "=".repeat((4 - (encoded.length % 4)) % 4);
+}
+
+/**
+ * Encodes bytes as URL and filename safe base64 without padding (RFC 4648
+ * section 5).
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return encodeBits(bytes, BASE64URL_ALPHABET);
+}
+
+/**
+ * Encodes bytes as base32 without padding.
+ *
+ * @param bytes - The bytes to encode.
+ * @param alphabet - The alphabet, RFC 4648 by default.
+ */
+export function bytesToBase32(
+  bytes: Uint8Array,
+  alphabet: string = BASE32_ALPHABET
+): string {
+  return encodeBits(bytes, alphabet);
+}
+
+/**
+ * Encodes bytes as base58 with the Bitcoin alphabet. Leading zero bytes
+ * become leading "1"s, so the length of the input is preserved.
+ */
+export function bytesToBase58(bytes: Uint8Array): string {
+  let value = BigInt(0);
+  for (const byte of bytes) value = (value << BigInt(8)) | BigInt(byte);
+
+  let result = "";
+  const base = BigInt(58);
+  while (value > BigInt(0)) {
+    result = BASE58_ALPHABET[Number(value % base)] + result;
+    value /= base;
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    result = BASE58_ALPHABET[0] + result;
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@/lib/encoding";
+import { getLocalRandomBytes } from "@/lib/local-entropy";
+import { hkdfSha256 } from "@/lib/sha256";
+
+/** Number of local CSPRNG bytes mixed into each seed. */
+export const LOCAL_MIX_BYTES = 32;
+/** Number of bytes in a mixed seed. */
+export const MIXED_SEED_BYTES = 32;
+
+const MIX_INFO = "cosmic-cipher/mix";
+
+export interface MixedSeed {
+  /** The mixed seed to feed into the generator, as hex. */
+  data: string;
+  /** The local entropy that was mixed in, as hex. */
+  localEntropy: string;
+}
+
+/**
+ * Combines a remote seed with local entropy through HKDF-SHA256, so that the
+ * result stays unpredictable as long as either input is.
+ *
+ * The local entropy is the HKDF salt and the remote seed the input keying
+ * material. Passing the same local entropy again reproduces the same mixed
+ * seed, which is how a mixed generation is audited later.
+ *
+ * @param seed - The remote seed as hex, e.g. from the cTRNG.
+ * @param localEntropy - Local entropy as hex, freshly generated if omitted.
+ * @returns The mixed seed and the local entropy used.
+ */
+export function mixSeedWithLocalEntropy(
+  seed: string,
+  localEntropy?: string
+): MixedSeed {
+  const local = localEntropy
+    ? hexToBytes(localEntropy)
+    : getLocalRandomBytes(LOCAL_MIX_BYTES);
+  const mixed = hkdfSha256(
+    hexToBytes(seed),
+    local,
+    utf8ToBytes(MIX_INFO),
+    MIXED_SEED_BYTES
+  );
+  return { data: bytesToHex(mixed), localEntropy: bytesToHex(local) };
+}
@@ -0,0 +1,86 @@
+import { RandomSeedResponse } from "@/types/orbitport";
+
+export interface EntropyPoolOptions {
+  /** Number of seeds to keep in reserve. Zero disables prefetching. */
+  size: number;
+  /** Refill starts once the reserve drops below this many seeds. */
+  lowWatermark: number;
+}
+
+export interface EntropyPool {
+  /**
+   * Hands out a seed that is removed from the pool and never handed out
+   * again. Fetches one directly when the pool is empty.
+   */
+  take(): Promise<RandomSeedResponse>;
+  /** Number of seeds currently in reserve. */
+  size(): number;
+}
+
+/**
+ * Reads the pool options from `ENTROPY_POOL_SIZE` and
+ * `ENTROPY_POOL_LOW_WATERMARK`.
+ */
+export function getEntropyPoolOptions(): EntropyPoolOptions {
+  const size = parseInt(process.env.ENTROPY_POOL_SIZE || "", 10);
+  const lowWatermark = parseInt(
+    process.env.ENTROPY_POOL_LOW_WATERMARK || "",
+    10
+  );
+  const poolSize = Number.isNaN(size) ? 10 : Math.max(0, size);
+  return {
+    size: poolSize,
+    lowWatermark: Math.min(
+      poolSize,
+      Number.isNaN(lowWatermark) ? Math.ceil(poolSize / 3) : lowWatermark
+    ),
+  };
+}
+
+/**
+ * Creates a pool that prefetches verified seeds in the background.
+ *
+ * Each pooled seed is a complete upstream response, handed out whole and
+ * exactly once. Seeds are never split into smaller chunks, so every chunk
+ * keeps its own source and signature and stays independently verifiable.
+ *
+ * @param fetchSeed - Fetches and verifies one seed, throwing on failure.
+ * @param options - Reserve size and refill watermark.
+ * @returns The entropy pool.
+ */
+export function createEntropyPool(
+  fetchSeed: () => Promise<RandomSeedResponse>,
+  options: EntropyPoolOptions
+): EntropyPool {
+  const reserve: RandomSeedResponse[] = [];
+  let refilling: Promise<void> | null = null;
+
+  // Single refill loop at a time; stops at the first failure and is retried
+  // on the next take
+  const refill = () => {
+    if (refilling || reserve.length >= options.size) return;
+    refilling = (async () => {
+      try {
+        while (reserve.length < options.size) {
+          reserve.push(await fetchSeed());
+        }
+      } catch (error) {
+        console.warn("Entropy pool refill failed:", error);
+      } finally {
+        refilling = null;
+      }
+    })();
+  };
+
+  return {
+    async take() {
+      const seed = reserve.shift();
+      if (reserve.length < options.lowWatermark) refill();
+      return seed ?? fetchSeed();
+    },
+
+    size() {
+      return reserve.length;
+    },
+  };
+}
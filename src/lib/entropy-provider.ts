@@ -0,0 +1,180 @@
+import { getOrbitportCredentials } from "@/lib/auth";
+import { getEntropyPoolOptions } from "@/lib/entropy-pool";
+import { createLocalSeedResponse } from "@/lib/local-entropy";
+import { createOrbitportProvider } from "@/lib/orbitport";
+import { deriveChildSeed } from "@/lib/random";
+import { checkSeedHealth, SeedHealthFailure } from "@/lib/seed-health";
+import { EntropyProvider, EntropyProviderName } from "@/types/entropy";
+import { RandomSeedResponse, SeedRejection } from "@/types/orbitport";
+
+export const DEFAULT_ENTROPY_PROVIDERS: EntropyProviderName[] = [
+  "orbitport",
+  "local",
+];
+export const TEST_SEED_SOURCE = "test";
+export const TEST_SEED_SERVICE = "deterministic-test";
+/** Used by the test provider when `ENTROPY_TEST_SEED` is not set. */
+const DEFAULT_TEST_SEED = "00".repeat(32);
+
+/**
+ * Creates a provider backed by the server's local CSPRNG.
+ */
+export function createLocalProvider(): EntropyProvider {
+  return {
+    name: "local",
+    getSeed: async () => createLocalSeedResponse(),
+  };
+}
+
+/**
+ * Creates a provider that returns a fixed sequence of seeds: the n-th seed is
+ * the n-th child seed of `seed`. Useful for reproducible development and
+ * tests, and never suitable for real passwords.
+ *
+ * @param seed - The base seed as hex, at least 16 bytes.
+ * @returns The entropy provider.
+ */
+export function createDeterministicProvider(seed: string): EntropyProvider {
+  let counter = 0;
+  return {
+    name: "test",
+    getSeed: async () => ({
+      service: TEST_SEED_SERVICE,
+      src: TEST_SEED_SOURCE,
+      data: deriveChildSeed(seed, counter++),
+      signature: {
+        value: "",
+        pk: "",
+        algo: "none",
+      },
+      verification: {
+        status: "unsigned",
+        algo: "none",
+        fingerprint: null,
+      },
+      usedFallback: false,
+    }),
+  };
+}
+
+/**
+ * Reads the provider order from `ENTROPY_PROVIDERS`, a comma separated list
+ * of `orbitport`, `local` and `test`. The first provider is the primary
+ * source, the others are tried in order when it fails.
+ *
+ * @throws Error if an unknown provider is listed.
+ */
+export function getEntropyProviderNames(): EntropyProviderName[] {
+  const value = process.env.ENTROPY_PROVIDERS;
+  if (!value) return DEFAULT_ENTROPY_PROVIDERS;
+
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  for (const name of names) {
+    if (!["orbitport", "local", "test"].includes(name)) {
+      throw new Error(`Unknown entropy provider: ${name}`);
+    }
+  }
+  return names.length > 0
+    ? (names as EntropyProviderName[])
+    : DEFAULT_ENTROPY_PROVIDERS;
+}
+
+/**
+ * Creates the configured providers, in order. Orbitport is skipped with a
+ * warning when its credentials are missing, so the app runs offline with the
+ * default configuration.
+ */
+function createConfiguredProviders(): EntropyProvider[] {
+  const providers: EntropyProvider[] = [];
+  for (const name of getEntropyProviderNames()) {
+    if (name === "orbitport") {
+      const credentials = getOrbitportCredentials();
+      if (!credentials) {
+        console.warn("Orbitport credentials missing, skipping cTRNG provider");
+        continue;
+      }
+      providers.push(
+        createOrbitportProvider(credentials, getEntropyPoolOptions())
+      );
+    } else if (name === "local") {
+      providers.push(createLocalProvider());
+    } else {
+      console.warn("Deterministic test entropy provider enabled");
+      providers.push(
+        createDeterministicProvider(
+          process.env.ENTROPY_TEST_SEED || DEFAULT_TEST_SEED
+        )
+      );
+    }
+  }
+  return providers;
+}
+
+let configuredProviders: EntropyProvider[] | null = null;
+/** Last accepted seed of each provider, for the repeated seed check. */
+const previousSeeds = new Map<EntropyProviderName, string>();
+const healthRejections: Partial<Record<SeedHealthFailure, number>> = {};
+
+/**
+ * Number of seeds rejected by the health tests since startup, by reason.
+ */
+export function getSeedHealthRejections(): Partial<
+  Record<SeedHealthFailure, number>
+> {
+  return { ...healthRejections };
+}
+
+/**
+ * Fetches a seed from the configured providers, trying each in order until
+ * one delivers a seed that passes the health tests.
+ *
+ * @returns The seed response, with `usedFallback` set when it did not come
+ * from the primary provider and `rejections` listing why earlier providers
+ * were skipped
+ * @throws Error if every provider failed
+ */
+export async function fetchRandomSeed(): Promise<RandomSeedResponse> {
+  if (!configuredProviders) configuredProviders = createConfiguredProviders();
+
+  const primary = getEntropyProviderNames()[0];
+  const rejections: SeedRejection[] = [];
+  for (const provider of configuredProviders) {
+    let seed: RandomSeedResponse;
+    try {
+      seed = await provider.getSeed();
+    } catch (error) {
+      console.warn(`Entropy provider ${provider.name} failed:`, error);
+      rejections.push({
+        provider: provider.name,
+        reason: (error as Error).message,
+      });
+      continue;
+    }
+
+    const health = checkSeedHealth(seed.data, previousSeeds.get(provider.name));
+    if (!health.passed) {
+      healthRejections[health.reason] =
+        (healthRejections[health.reason] ?? 0) + 1;
+      console.warn(
+        `Seed from ${provider.name} failed health tests: ${health.message}`,
+        getSeedHealthRejections()
+      );
+      rejections.push({
+        provider: provider.name,
+        reason: `Health test failed: ${health.message}`,
+      });
+      continue;
+    }
+    previousSeeds.set(provider.name, seed.data);
+
+    return {
+      ...seed,
+      usedFallback: provider.name !== primary,
+      ...(rejections.length > 0 && { rejections }),
+    };
+  }
+  throw new Error("No entropy provider available");
+}
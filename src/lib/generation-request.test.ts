@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  estimateRequestWork,
+  MAX_API_GENERATION_WORK,
+  parseGenerationRequest,
+  validateRequestWork,
+} from "@/lib/generation-request";
+
+describe("estimateRequestWork", () => {
+  it("counts the characters, bytes or words of the whole batch", () => {
+    const cases: [Record<string, unknown>, number][] = [
+      [{ count: 10, length: 20 }, 200],
+      [{ count: 10, mode: "mask", mask: "Cvcc-9{4}" }, 90],
+      [{ count: 3, mode: "pronounceable", length: 12 }, 36],
+      [{ count: 2, mode: "secret", format: "hex", bytes: 32 }, 64],
+      [{ count: 4, mode: "passphrase", wordCount: 6 }, 24],
+      [{ count: 5, mode: "bip39", wordCount: 24 }, 120],
+    ];
+    for (const [body, work] of cases) {
+      assert.equal(estimateRequestWork(parseGenerationRequest(body)), work);
+    }
+  });
+
+  it("includes the candidates the rules reject", () => {
+    const request = parseGenerationRequest({
+      count: 10,
+      length: 32,
+      noSequences: true,
+    });
+    assert.ok(estimateRequestWork(request) > 320);
+  });
+});
+
+describe("validateRequestWork", () => {
+  it("limits API requests to the API budget", () => {
+    validateRequestWork(
+      parseGenerationRequest({ count: 500, length: 64 }),
+      MAX_API_GENERATION_WORK
+    );
+    assert.throws(
+      () =>
+        validateRequestWork(
+          parseGenerationRequest({ count: 500, length: 256 }),
+          MAX_API_GENERATION_WORK
+        ),
+      /Request is too large/
+    );
+  });
+});
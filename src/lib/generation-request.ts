@@ -0,0 +1,452 @@
+import {
+  estimateMaskEntropy,
+  generateMaskFromSeed,
+  MaskParams,
+  validateMaskParams,
+} from "@/lib/mask-generator";
+import {
+  estimateMnemonicEntropy,
+  generateMnemonicFromSeed,
+  MnemonicParams,
+  validateMnemonicParams,
+} from "@/lib/mnemonic-generator";
+import {
+  estimatePassphraseEntropy,
+  generatePassphraseFromSeed,
+  PassphraseCapitalization,
+  PassphraseParams,
+  validatePassphraseParams,
+} from "@/lib/passphrase-generator";
+import {
+  estimateRuleAcceptance,
+  GenerateParams,
+  generatePasswordFromSeed,
+  validateGenerationWork,
+} from "@/lib/password-generator";
+import {
+  policyToParams,
+  resolvePolicy,
+  validatePolicyLength,
+} from "@/lib/policy";
+import {
+  estimatePronounceableEntropy,
+  generatePronounceableFromSeed,
+  PronounceableParams,
+  validatePronounceableParams,
+} from "@/lib/pronounceable-generator";
+import { deriveChildSeed } from "@/lib/random";
+import {
+  estimateSecretEntropy,
+  generateSecretFromSeed,
+  SecretFormat,
+  SecretParams,
+  stampSecretParams,
+  validateSecretParams,
+} from "@/lib/secret-generator";
+import { estimatePasswordEntropy } from "@/lib/strength";
+
+export type GeneratorMode =
+  "password" | "passphrase" | "mask" | "pronounceable" | "secret" | "bip39";
+
+export interface GenerationRequest {
+  mode: GeneratorMode;
+  count: number;
+  password: GenerateParams;
+  passphrase: PassphraseParams;
+  mask: MaskParams;
+  pronounceable: PronounceableParams;
+  secret: SecretParams;
+  bip39: MnemonicParams;
+}
+
+export interface GenerationResult {
+  passwords: string[];
+  entropyBits: number;
+}
+
+export const MAX_GENERATION_COUNT = 500;
+
+/**
+ * Work a single HTTP request may ask for, in the units of
+ * `estimateRequestWork`. Generation runs synchronously on the request
+ * thread, so this keeps one request to roughly half a second of CPU, well
+ * below the budget of in-browser and CLI generation.
+ */
+export const MAX_API_GENERATION_WORK = 32000;
+
+export const DEFAULT_GENERATE_PARAMS: GenerateParams = {
+  length: 16,
+  minUpper: 2,
+  minLower: 2,
+  minNumbers: 2,
+  minSymbols: 2,
+  includeUpper: true,
+  includeLower: true,
+  includeNumbers: true,
+  includeSymbols: true,
+};
+
+export const DEFAULT_PASSPHRASE_PARAMS: PassphraseParams = {
+  wordCount: 6,
+  separator: "-",
+  capitalization: "lower",
+  includeNumber: false,
+  includeSymbol: false,
+};
+
+export const DEFAULT_MASK_PARAMS: MaskParams = {
+  mask: "Cvcc-9999-Cvcc",
+};
+
+export const DEFAULT_PRONOUNCEABLE_PARAMS: PronounceableParams = {
+  length: 12,
+  minUpper: 1,
+  minNumbers: 2,
+  minSymbols: 0,
+};
+
+export const DEFAULT_SECRET_PARAMS: SecretParams = {
+  format: "hex",
+  bytes: 32,
+};
+
+export const DEFAULT_BIP39_PARAMS: MnemonicParams = {
+  wordCount: 12,
+};
+
+const GENERATOR_MODES: GeneratorMode[] = [
+  "password",
+  "passphrase",
+  "mask",
+  "pronounceable",
+  "secret",
+  "bip39",
+];
+
+type Body = Record<string, unknown>;
+
+function readNumber(body: Body, key: string, fallback: number): number {
+  const value = body[key] ?? fallback;
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new Error(`${key} must be an integer`);
+  }
+  return value;
+}
+
+function readOptionalNumber(
+  body: Body,
+  key: string,
+  fallback: number | undefined
+): number | undefined {
+  const value = body[key] ?? fallback;
+  if (value === undefined) return undefined;
+  return readNumber(body, key, value as number);
+}
+
+function readBoolean(body: Body, key: string, fallback: boolean): boolean {
+  const value = body[key] ?? fallback;
+  if (typeof value !== "boolean") {
+    throw new Error(`${key} must be a boolean`);
+  }
+  return value;
+}
+
+function readString<T extends string | undefined>(
+  body: Body,
+  key: string,
+  fallback: T
+): string | T {
+  const value = body[key] ?? fallback;
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`${key} must be a string`);
+  }
+  return value as string | T;
+}
+
+/**
+ * Parses and validates an untrusted generation request body, filling in the
+ * same defaults as the web UI.
+ *
+ * With a `policy` (a preset id or an inline policy object) the policy's
+ * settings replace the defaults, its forbidden characters are always
+ * excluded, and the length must be within its range.
+ *
+ * A ULID secret without a `timestamp` is stamped with the current time, so
+ * the returned request reproduces the same IDs.
+ *
+ * @param body - The parsed JSON request body.
+ * @returns The validated request.
+ * @throws Error with a message suitable for a 400 response.
+ */
+export function parseGenerationRequest(body: unknown): GenerationRequest {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("Request body must be a JSON object");
+  }
+  const input = body as Body;
+
+  const mode = readString(input, "mode", "password");
+  if (!GENERATOR_MODES.includes(mode as GeneratorMode)) {
+    throw new Error(
+      `mode must be one of ${GENERATOR_MODES.map((m) => `"${m}"`).join(", ")}`
+    );
+  }
+
+  const count = readNumber(input, "count", 1);
+  if (count < 1 || count > MAX_GENERATION_COUNT) {
+    throw new Error(`count must be between 1 and ${MAX_GENERATION_COUNT}`);
+  }
+
+  const policy =
+    input.policy !== undefined ? resolvePolicy(input.policy) : null;
+  const defaults = policy ? policyToParams(policy) : DEFAULT_GENERATE_PARAMS;
+  const excludeChars = readString(input, "excludeChars", undefined);
+  const password: GenerateParams = {
+    length: readNumber(input, "length", defaults.length),
+    minUpper: readNumber(input, "minUpper", defaults.minUpper),
+    minLower: readNumber(input, "minLower", defaults.minLower),
+    minNumbers: readNumber(input, "minNumbers", defaults.minNumbers),
+    minSymbols: readNumber(input, "minSymbols", defaults.minSymbols),
+    includeUpper: readBoolean(input, "includeUpper", defaults.includeUpper),
+    includeLower: readBoolean(input, "includeLower", defaults.includeLower),
+    includeNumbers: readBoolean(
+      input,
+      "includeNumbers",
+      defaults.includeNumbers
+    ),
+    includeSymbols: readBoolean(
+      input,
+      "includeSymbols",
+      defaults.includeSymbols
+    ),
+    symbols: readString(input, "symbols", defaults.symbols),
+    excludeAmbiguous: readBoolean(
+      input,
+      "excludeAmbiguous",
+      defaults.excludeAmbiguous ?? true
+    ),
+    excludeChars:
+      defaults.excludeChars || excludeChars
+        ? `${defaults.excludeChars ?? ""}${excludeChars ?? ""}`
+        : undefined,
+    customCharset: readString(input, "customCharset", defaults.customCharset),
+    startWithLetter: readBoolean(
+      input,
+      "startWithLetter",
+      defaults.startWithLetter ?? false
+    ),
+    maxRepeat: readOptionalNumber(input, "maxRepeat", defaults.maxRepeat),
+    noSequences: readBoolean(
+      input,
+      "noSequences",
+      defaults.noSequences ?? false
+    ),
+    username: readString(input, "username", undefined),
+  };
+
+  const passphraseDefaults = DEFAULT_PASSPHRASE_PARAMS;
+  const passphrase: PassphraseParams = {
+    wordCount: readNumber(input, "wordCount", passphraseDefaults.wordCount),
+    separator: readString(input, "separator", passphraseDefaults.separator),
+    capitalization: readString(
+      input,
+      "capitalization",
+      passphraseDefaults.capitalization
+    ) as PassphraseCapitalization,
+    includeNumber: readBoolean(
+      input,
+      "includeNumber",
+      passphraseDefaults.includeNumber
+    ),
+    includeSymbol: readBoolean(
+      input,
+      "includeSymbol",
+      passphraseDefaults.includeSymbol
+    ),
+  };
+
+  const mask: MaskParams = {
+    mask: readString(input, "mask", DEFAULT_MASK_PARAMS.mask),
+  };
+
+  // Shares the option names of password mode, with its own defaults
+  const pronounceableDefaults = DEFAULT_PRONOUNCEABLE_PARAMS;
+  const pronounceable: PronounceableParams = {
+    length: readNumber(input, "length", pronounceableDefaults.length),
+    minUpper: readNumber(input, "minUpper", pronounceableDefaults.minUpper),
+    minNumbers: readNumber(
+      input,
+      "minNumbers",
+      pronounceableDefaults.minNumbers
+    ),
+    minSymbols: readNumber(
+      input,
+      "minSymbols",
+      pronounceableDefaults.minSymbols
+    ),
+  };
+
+  const secret: SecretParams = stampSecretParams({
+    format: readString(
+      input,
+      "format",
+      DEFAULT_SECRET_PARAMS.format
+    ) as SecretFormat,
+    bytes: readNumber(input, "bytes", DEFAULT_SECRET_PARAMS.bytes),
+    timestamp: readOptionalNumber(input, "timestamp", undefined),
+  });
+
+  // Shares wordCount with passphrase mode, with its own default
+  const bip39: MnemonicParams = {
+    wordCount: readNumber(input, "wordCount", DEFAULT_BIP39_PARAMS.wordCount),
+  };
+
+  if (mode === "password") {
+    if (policy) validatePolicyLength(policy, password.length);
+    // Also refuses rules that reject nearly every candidate, which would
+    // stall generation
+    validateGenerationWork(password, count);
+  } else if (mode === "passphrase") {
+    validatePassphraseParams(passphrase);
+  } else if (mode === "mask") {
+    validateMaskParams(mask);
+  } else if (mode === "pronounceable") {
+    validatePronounceableParams(pronounceable);
+  } else if (mode === "secret") {
+    validateSecretParams(secret);
+  } else {
+    validateMnemonicParams(bip39);
+  }
+
+  return {
+    mode: mode as GeneratorMode,
+    count,
+    password,
+    passphrase,
+    mask,
+    pronounceable,
+    secret,
+    bip39,
+  };
+}
+
+/**
+ * Generates one password of a request from its child seed.
+ */
+function generateOne(seed: string, request: GenerationRequest): string {
+  switch (request.mode) {
+    case "passphrase":
+      return generatePassphraseFromSeed(seed, request.passphrase);
+    case "mask":
+      return generateMaskFromSeed(seed, request.mask);
+    case "pronounceable":
+      return generatePronounceableFromSeed(seed, request.pronounceable);
+    case "secret":
+      return generateSecretFromSeed(seed, request.secret);
+    case "bip39":
+      return generateMnemonicFromSeed(seed, request.bip39);
+    default:
+      return generatePasswordFromSeed(seed, request.password);
+  }
+}
+
+/**
+ * Computes the theoretical entropy of each password of a request.
+ *
+ * @param request - The generation request.
+ * @param ruleAcceptance - The share of passwords the constraint rules accept,
+ *   if already estimated (password mode only).
+ * @returns The entropy in bits.
+ * @throws Error if the parameters of the request's mode are invalid.
+ */
+export function estimateRequestEntropy(
+  request: GenerationRequest,
+  ruleAcceptance?: number
+): number {
+  switch (request.mode) {
+    case "passphrase":
+      return estimatePassphraseEntropy(request.passphrase);
+    case "mask":
+      return estimateMaskEntropy(request.mask);
+    case "pronounceable":
+      return estimatePronounceableEntropy(request.pronounceable);
+    case "secret":
+      return estimateSecretEntropy(request.secret);
+    case "bip39":
+      return estimateMnemonicEntropy(request.bip39);
+    default:
+      return estimatePasswordEntropy(request.password, ruleAcceptance);
+  }
+}
+
+/**
+ * Estimates the work of generating a request: the characters, bytes or
+ * words drawn for the whole batch, including password candidates the
+ * constraint rules are expected to reject.
+ *
+ * @param request - The validated generation request.
+ * @returns The expected number of characters, bytes or words drawn.
+ */
+export function estimateRequestWork(request: GenerationRequest): number {
+  let perItem: number;
+  switch (request.mode) {
+    case "passphrase":
+      perItem = request.passphrase.wordCount;
+      break;
+    case "mask":
+      perItem = validateMaskParams(request.mask).length;
+      break;
+    case "pronounceable":
+      perItem = request.pronounceable.length;
+      break;
+    case "secret":
+      perItem = request.secret.bytes;
+      break;
+    case "bip39":
+      perItem = request.bip39.wordCount;
+      break;
+    default:
+      perItem =
+        request.password.length / estimateRuleAcceptance(request.password);
+  }
+  return request.count * perItem;
+}
+
+/**
+ * Checks that a request stays within a work budget.
+ *
+ * @param request - The validated generation request.
+ * @param maxWork - The budget, in the units of `estimateRequestWork`.
+ * @throws Error if the request is expected to exceed the budget.
+ */
+export function validateRequestWork(
+  request: GenerationRequest,
+  maxWork: number
+): void {
+  if (estimateRequestWork(request) > maxWork) {
+    throw new Error(
+      `Request is too large, lower the count or length: at most ${maxWork} characters can be generated per request`
+    );
+  }
+}
+
+/**
+ * Generates every password of a request from one seed. Each password uses
+ * its own child seed (see `deriveChildSeed`), so the passwords of a batch are
+ * independent and any one of them can be reproduced from the seed and its
+ * index.
+ *
+ * @param seed - The seed as hex.
+ * @param request - The validated generation request.
+ * @returns The passwords and their theoretical entropy.
+ */
+export function generateFromRequest(
+  seed: string,
+  request: GenerationRequest
+): GenerationResult {
+  const passwords: string[] = [];
+  for (let index = 0; index < request.count; index++) {
+    passwords.push(generateOne(deriveChildSeed(seed, index), request));
+  }
+
+  return { passwords, entropyBits: estimateRequestEntropy(request) };
+}
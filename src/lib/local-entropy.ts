@@ -0,0 +1,52 @@
+import { bytesToHex } from "@/lib/encoding";
+import { RandomSeedResponse } from "@/types/orbitport";
+
+export const LOCAL_SEED_BYTES = 32;
+export const LOCAL_SEED_SOURCE = "local";
+export const LOCAL_SEED_SERVICE = "local-csprng";
+
+/**
+ * Generates random bytes from the platform CSPRNG. Uses the Web Crypto API,
+ * which is available both in the browser and in Node.js 20+.
+ *
+ * @param length - Number of bytes to generate.
+ * @returns The random bytes.
+ */
+export function getLocalRandomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  // getRandomValues is limited to 65536 bytes per call
+  for (let offset = 0; offset < length; offset += 65536) {
+    globalThis.crypto.getRandomValues(
+      bytes.subarray(offset, Math.min(offset + 65536, length))
+    );
+  }
+  return bytes;
+}
+
+/**
+ * Creates a seed response backed by local CSPRNG entropy, shaped exactly like
+ * a cTRNG response so it can be used whenever Orbitport is unavailable.
+ *
+ * @param byteLength - Number of random bytes in the seed.
+ * @returns An unsigned seed response marked as local and as a fallback.
+ */
+export function createLocalSeedResponse(
+  byteLength: number = LOCAL_SEED_BYTES
+): RandomSeedResponse {
+  return {
+    service: LOCAL_SEED_SERVICE,
+    src: LOCAL_SEED_SOURCE,
+    data: bytesToHex(getLocalRandomBytes(byteLength)),
+    signature: {
+      value: "",
+      pk: "",
+      algo: "none",
+    },
+    verification: {
+      status: "unsigned",
+      algo: "none",
+      fingerprint: null,
+    },
+    usedFallback: true,
+  };
+}
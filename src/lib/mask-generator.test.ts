@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_MASK_LENGTH,
+  MAX_MASK_SOURCE_LENGTH,
+  parseMask,
+} from "@/lib/mask-generator";
+
+describe("parseMask", () => {
+  it("expands repeats up to the length limit", () => {
+    assert.equal(parseMask("a{200}-9{55}").length, MAX_MASK_LENGTH);
+    assert.deepEqual(parseMask("[ab]{2}"), [
+      ["a", "b"],
+      ["a", "b"],
+    ]);
+  });
+
+  it("rejects a repeat that would exceed the length limit", () => {
+    assert.throws(() => parseMask("a{200}b{57}"), /at most 256 characters/);
+    assert.throws(() => parseMask("a{256}".repeat(2)), /at most 256/);
+    assert.throws(() => parseMask("a".repeat(257)), /at most 256/);
+  });
+
+  it("rejects long masks before parsing them", () => {
+    assert.throws(
+      () => parseMask("a{256}".repeat(20000)),
+      new RegExp(`at most ${MAX_MASK_SOURCE_LENGTH} characters`)
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import { CHARSETS, MAX_PASSWORD_LENGTH } from "@/lib/password-generator";
+import { createRandomGenerator, randomIndex } from "@/lib/random";
+
+export interface MaskParams {
+  /** Template such as `Cvcc-9999-Cvcc` or `[A-Z]{4}-[0-9]{6}`. */
+  mask: string;
+}
+
+const VOWELS = "aeiou";
+const CONSONANTS = "bcdfghjklmnpqrstvwxyz";
+
+/** Placeholders that draw one character from a named class. */
+export const MASK_CLASSES: Record<string, { label: string; chars: string }> = {
+  A: { label: "uppercase letter", chars: CHARSETS.uppercase },
+  a: { label: "lowercase letter", chars: CHARSETS.lowercase },
+  "9": { label: "digit", chars: CHARSETS.numbers },
+  "#": { label: "symbol", chars: CHARSETS.symbols },
+  C: { label: "uppercase consonant", chars: CONSONANTS.toUpperCase() },
+  c: { label: "lowercase consonant", chars: CONSONANTS },
+  V: { label: "uppercase vowel", chars: VOWELS.toUpperCase() },
+  v: { label: "lowercase vowel", chars: VOWELS },
+};
+
+export const MAX_MASK_LENGTH = MAX_PASSWORD_LENGTH;
+/** Longest mask accepted, checked before parsing so huge input is cheap. */
+export const MAX_MASK_SOURCE_LENGTH = 1024;
+/** Largest custom set, so a wide Unicode range cannot blow up the parser. */
+const MAX_SET_SIZE = 1024;
+
+/** Domain separation string for the DRBG used by the mask generator. */
+const DRBG_PERSONALIZATION = "cosmic-cipher/mask";
+
+/**
+ * Throws a mask syntax error pointing at a position of the mask.
+ */
+function maskError(message: string, position: number): never {
+  throw new Error(`Mask error at position ${position + 1}: ${message}`);
+}
+
+/**
+ * Throws the error for masks that produce too many characters.
+ */
+function maskTooLong(): never {
+  throw new Error(`Mask must produce at most ${MAX_MASK_LENGTH} characters`);
+}
+
+/**
+ * Parses a custom set such as `[A-Fa-f0-9_]` starting after its `[`.
+ *
+ * @returns The characters of the set and the index after its `]`.
+ */
+function parseCustomSet(
+  chars: string[],
+  start: number
+): { set: string[]; end: number } {
+  const members: string[] = [];
+  let i = start;
+  while (i < chars.length && chars[i] !== "]") {
+    let char = chars[i];
+    if (char === "\\") {
+      if (i + 1 >= chars.length) maskError("unfinished escape", i);
+      char = chars[++i];
+    } else if (
+      chars[i + 1] === "-" &&
+      i + 2 < chars.length &&
+      chars[i + 2] !== "]"
+    ) {
+      let last = chars[i + 2];
+      let next = i + 3;
+      if (last === "\\") {
+        if (i + 3 >= chars.length) maskError("unfinished escape", i + 2);
+        last = chars[i + 3];
+        next = i + 4;
+      }
+      const from = char.codePointAt(0)!;
+      const to = last.codePointAt(0)!;
+      if (from > to) maskError(`invalid range "${char}-${last}"`, i);
+      if (to - from >= MAX_SET_SIZE) {
+        maskError(`range "${char}-${last}" is too large`, i);
+      }
+      for (let code = from; code <= to; code++) {
+        members.push(String.fromCodePoint(code));
+      }
+      i = next;
+      continue;
+    }
+    members.push(char);
+    i++;
+  }
+  if (i >= chars.length) maskError('unclosed "["', start - 1);
+
+  const set = Array.from(new Set(members));
+  if (set.length === 0) maskError("empty character set", start - 1);
+  if (set.length > MAX_SET_SIZE) {
+    maskError(
+      `character set has more than ${MAX_SET_SIZE} characters`,
+      start - 1
+    );
+  }
+  return { set, end: i + 1 };
+}
+
+/**
+ * Parses a mask into the characters available at each output position.
+ *
+ * Syntax:
+ * - `A`, `a`, `9`, `#`, `C`, `c`, `V`, `v`: one character of a named class
+ *   (see `MASK_CLASSES`)
+ * - `[...]`: one character of a custom set, with ranges like `A-F`
+ * - `{n}`: repeats the preceding element n times in total
+ * - `\x`: the literal character x
+ * - anything else: itself
+ *
+ * @param mask - The mask to parse.
+ * @returns The candidate characters of each position; a literal has one.
+ * @throws Error naming the problem and its position.
+ */
+export function parseMask(mask: string): string[][] {
+  if (mask.length > MAX_MASK_SOURCE_LENGTH) {
+    throw new Error(
+      `Mask must be at most ${MAX_MASK_SOURCE_LENGTH} characters`
+    );
+  }
+  const chars = Array.from(mask);
+  const positions: string[][] = [];
+  let previous: string[] | null = null;
+
+  let i = 0;
+  while (i < chars.length) {
+    const char = chars[i];
+    let element: string[];
+
+    if (char === "{") {
+      const close = chars.indexOf("}", i);
+      if (close === -1) maskError('unclosed "{"', i);
+      if (previous === null) maskError('"{" must follow an element', i);
+      const count = chars.slice(i + 1, close).join("");
+      if (!/^\d+$/.test(count)) {
+        maskError(`repeat count "${count}" is not a number`, i);
+      }
+      const times = parseInt(count, 10);
+      if (times < 1 || times > MAX_MASK_LENGTH) {
+        maskError(`repeat count must be between 1 and ${MAX_MASK_LENGTH}`, i);
+      }
+      // Checked before expanding, so a long mask cannot build a huge array
+      if (positions.length + times - 1 > MAX_MASK_LENGTH) maskTooLong();
+      for (let n = 1; n < times; n++) positions.push(previous);
+      // A repeat applies to one element, so "{2}{3}" is an error
+      previous = null;
+      i = close + 1;
+      continue;
+    }
+
+    if (char === "}") maskError('"}" without "{"', i);
+    if (char === "[") {
+      const { set, end } = parseCustomSet(chars, i + 1);
+      element = set;
+      i = end;
+    } else if (char === "\\") {
+      if (i + 1 >= chars.length) maskError("unfinished escape", i);
+      element = [chars[i + 1]];
+      i += 2;
+    } else {
+      element = Array.from(MASK_CLASSES[char]?.chars ?? char);
+      i++;
+    }
+
+    if (positions.length >= MAX_MASK_LENGTH) maskTooLong();
+    positions.push(element);
+    previous = element;
+  }
+
+  return positions;
+}
+
+/**
+ * Validates mask parameters.
+ *
+ * @returns The characters available at each position.
+ * @throws Error describing the problem with the mask.
+ */
+export function validateMaskParams(params: MaskParams): string[][] {
+  if (typeof params.mask !== "string" || params.mask === "") {
+    throw new Error("Mask must be a non-empty string");
+  }
+  const positions = parseMask(params.mask);
+  if (positions.every((chars) => chars.length === 1)) {
+    throw new Error("Mask must contain at least one random element");
+  }
+  return positions;
+}
+
+/**
+ * Generates a password that follows a mask from a seed.
+ *
+ * Each position is drawn uniformly and independently from its characters
+ * with the same DRBG and rejection sampling as the password generator.
+ */
+export function generateMaskFromSeed(seed: string, params: MaskParams): string {
+  const positions = validateMaskParams(params);
+  const randomValues = createRandomGenerator(seed, DRBG_PERSONALIZATION);
+  return positions
+    .map((chars) =>
+      chars.length === 1
+        ? chars[0]
+        : chars[randomIndex(randomValues, chars.length)]
+    )
+    .join("");
+}
+
+/**
+ * Computes the entropy of passwords generated from a mask: the sum of log2
+ * of the number of characters at each position, since positions are drawn
+ * independently.
+ *
+ * @returns The entropy in bits, assuming the attacker knows the mask.
+ * @throws Error if the mask is invalid.
+ */
+export function estimateMaskEntropy(params: MaskParams): number {
+  return validateMaskParams(params).reduce(
+    (bits, chars) => bits + Math.log2(chars.length),
+    0
+  );
+}
@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  entropyToMnemonic,
+  generateMnemonicFromSeed,
+  MNEMONIC_WORD_COUNTS,
+  MNEMONIC_WORDLIST,
+} from "@/lib/mnemonic-generator";
+import { hexToBytes } from "@/lib/encoding";
+import { sha256 } from "@/lib/sha256";
+
+/**
+ * Repeats a word, for the long runs of the all-zero and all-one vectors.
+ */
+function words(word: string, count: number): string {
+  return Array(count).fill(word).join(" ");
+}
+
+describe("entropyToMnemonic", () => {
+  // Reference vectors from the BIP39 repository (trezor/python-mnemonic
+  // vectors.json) for 12, 18 and 24 words. That file has no 15 or 21 word
+  // vectors; those were derived from the BIP39 specification independently.
+  const vectors: [string, string][] = [
+    ["00".repeat(16), `${words("abandon", 11)} about`],
+    [
+      "7f".repeat(16),
+      "legal winner thank year wave sausage worth useful legal winner thank yellow",
+    ],
+    [
+      "80".repeat(16),
+      "letter advice cage absurd amount doctor acoustic avoid letter advice cage above",
+    ],
+    ["ff".repeat(16), `${words("zoo", 11)} wrong`],
+    [
+      "9e885d952ad362caeb4efe34a8e91bd2",
+      "ozone drill grab fiber curtain grace pudding thank cruise elder eight picnic",
+    ],
+    ["00".repeat(20), `${words("abandon", 14)} address`],
+    ["ff".repeat(20), `${words("zoo", 14)} wrist`],
+    ["00".repeat(24), `${words("abandon", 17)} agent`],
+    ["ff".repeat(24), `${words("zoo", 17)} when`],
+    [
+      "6610b25967cdcca9d59875f5cb50b0ea75433311869e930b",
+      "gravity machine north sort system female filter attitude volume fold club stay feature office ecology stable narrow fog",
+    ],
+    ["00".repeat(28), `${words("abandon", 20)} admit`],
+    ["ff".repeat(28), `${words("zoo", 20)} veteran`],
+    ["00".repeat(32), `${words("abandon", 23)} art`],
+    ["ff".repeat(32), `${words("zoo", 23)} vote`],
+    [
+      "68a79eaca2324873eacc50cb9c6eca8cc68ea5d936f98787c60c7ebc74e6ce7c",
+      "hamster diagram private dutch cause delay private meat slide toddler razor book happy fancy gospel tennis maple dilemma loan word shrug inflict delay length",
+    ],
+  ];
+
+  for (const [entropy, mnemonic] of vectors) {
+    it(`encodes ${entropy.slice(0, 16)}… (${entropy.length / 2} bytes)`, () => {
+      assert.equal(entropyToMnemonic(hexToBytes(entropy)).join(" "), mnemonic);
+    });
+  }
+
+  it("rejects entropy of an invalid length", () => {
+    for (const length of [0, 12, 17, 36]) {
+      assert.throws(() => entropyToMnemonic(new Uint8Array(length)));
+    }
+  });
+});
+
+describe("generateMnemonicFromSeed", () => {
+  const SEED = "5eed".repeat(16);
+
+  it("produces valid mnemonics of every length", () => {
+    for (const wordCount of MNEMONIC_WORD_COUNTS) {
+      const mnemonic = generateMnemonicFromSeed(SEED, { wordCount });
+      const indices = mnemonic
+        .split(" ")
+        .map((word) => MNEMONIC_WORDLIST.indexOf(word));
+      assert.equal(indices.length, wordCount);
+      assert.ok(indices.every((index) => index >= 0));
+
+      // Recover the entropy and check the checksum bits
+      const bits = indices
+        .map((index) => index.toString(2).padStart(11, "0"))
+        .join("");
+      const checksumBits = wordCount / 3;
+      const entropyBits = bits.slice(0, bits.length - checksumBits);
+      const entropy = Uint8Array.from(
+        entropyBits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2))
+      );
+      const checksum = sha256(entropy)[0]
+        .toString(2)
+        .padStart(8, "0")
+        .slice(0, checksumBits);
+      assert.equal(bits.slice(-checksumBits), checksum);
+    }
+  });
+
+  it("reproduces the same mnemonic from the same seed", () => {
+    assert.equal(
+      generateMnemonicFromSeed(SEED, { wordCount: 24 }),
+      generateMnemonicFromSeed(SEED, { wordCount: 24 })
+    );
+  });
+});
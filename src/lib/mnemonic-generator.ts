@@ -0,0 +1,98 @@
+import { createRandomGenerator } from "@/lib/random";
+import { sha256 } from "@/lib/sha256";
+import BIP39_ENGLISH_WORDLIST from "@/lib/wordlists/bip39-english.json";
+
+export interface MnemonicParams {
+  /** 12, 15, 18, 21 or 24 words, for 128 to 256 bits of entropy. */
+  wordCount: number;
+}
+
+/** The BIP39 English wordlist (2048 words, 11 bits per word). */
+export const MNEMONIC_WORDLIST: readonly string[] = BIP39_ENGLISH_WORDLIST;
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+/** Domain separation string for the DRBG used by the mnemonic generator. */
+const DRBG_PERSONALIZATION = "cosmic-cipher/bip39";
+const BITS_PER_WORD = 11;
+
+/**
+ * Validates mnemonic parameters.
+ * @throws Error describing the first invalid parameter.
+ */
+export function validateMnemonicParams(params: MnemonicParams): void {
+  if (!MNEMONIC_WORD_COUNTS.includes(params.wordCount)) {
+    throw new Error(
+      `Mnemonic word count must be one of ${MNEMONIC_WORD_COUNTS.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Returns the number of entropy bytes behind a mnemonic of a given length:
+ * every 3 words carry 32 bits of entropy and 1 checksum bit.
+ */
+function entropyBytesFor(wordCount: number): number {
+  return (wordCount / 3) * 4;
+}
+
+/**
+ * Encodes entropy as a BIP39 mnemonic. The first ENT/32 bits of the SHA-256
+ * of the entropy are appended as a checksum, and the result is split into
+ * 11-bit indices into the wordlist.
+ *
+ * @param entropy - 16 to 32 bytes of entropy, a multiple of 4.
+ * @returns The words of the mnemonic.
+ * @throws Error if the entropy has an invalid length.
+ */
+export function entropyToMnemonic(entropy: Uint8Array): string[] {
+  if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+    throw new Error("BIP39 entropy must be 16 to 32 bytes, a multiple of 4");
+  }
+  const checksumBits = entropy.length / 4;
+  const bytes = new Uint8Array(entropy.length + 1);
+  bytes.set(entropy);
+  bytes[entropy.length] = sha256(entropy)[0];
+
+  const wordCount = ((entropy.length * 8 + checksumBits) / BITS_PER_WORD) | 0;
+  const words: string[] = [];
+  for (let word = 0; word < wordCount; word++) {
+    let index = 0;
+    for (
+      let bit = word * BITS_PER_WORD;
+      bit < (word + 1) * BITS_PER_WORD;
+      bit++
+    ) {
+      index = (index << 1) | ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    words.push(MNEMONIC_WORDLIST[index]);
+  }
+  return words;
+}
+
+/**
+ * Generates a BIP39 mnemonic from a seed. The entropy is drawn from the
+ * seeded DRBG, so the mnemonic can be recreated from the seed, like every
+ * other mode.
+ */
+export function generateMnemonicFromSeed(
+  seed: string,
+  params: MnemonicParams
+): string {
+  validateMnemonicParams(params);
+  const randomValues = createRandomGenerator(seed, DRBG_PERSONALIZATION);
+  return entropyToMnemonic(
+    randomValues(entropyBytesFor(params.wordCount))
+  ).join(" ");
+}
+
+/**
+ * Computes the entropy of a mnemonic. The checksum bits are derived from the
+ * entropy, so they add nothing.
+ *
+ * @returns The entropy in bits.
+ * @throws Error if the parameters are invalid.
+ */
+export function estimateMnemonicEntropy(params: MnemonicParams): number {
+  validateMnemonicParams(params);
+  return entropyBytesFor(params.wordCount) * 8;
+}
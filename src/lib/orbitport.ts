@@ -0,0 +1,80 @@
+import { createTokenCache, OrbitportCredentials } from "@/lib/auth";
+import { createEntropyPool, EntropyPoolOptions } from "@/lib/entropy-pool";
+import { isAcceptedSignature, verifySeedSignature } from "@/lib/signature";
+import { EntropyProvider } from "@/types/entropy";
+import { OrbitportSeedResponse, RandomSeedResponse } from "@/types/orbitport";
+
+/** Time limit of a cTRNG request, including reading its body. */
+const TRNG_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Creates the Orbitport cTRNG provider. Seeds are fetched with a cached
+ * access token, verified, and prefetched into an entropy pool.
+ *
+ * @param credentials - The Orbitport client credentials.
+ * @param poolOptions - Reserve size and refill watermark of the seed pool.
+ * @returns The entropy provider.
+ */
+export function createOrbitportProvider(
+  credentials: OrbitportCredentials,
+  poolOptions: EntropyPoolOptions
+): EntropyProvider {
+  const tokenCache = createTokenCache(credentials);
+
+  /**
+   * Fetches a signed seed from the Orbitport cTRNG service and verifies its
+   * signature.
+   *
+   * @returns The verified seed response
+   * @throws Error if the request fails or the signature is rejected
+   */
+  const requestOrbitportSeed = async (): Promise<RandomSeedResponse> => {
+    // Get valid token from the shared token cache
+    const accessToken = await tokenCache.getValidToken();
+    if (!accessToken) throw new Error("Authentication failed");
+
+    // Call downstream API with access token
+    const response = await fetch(`${credentials.apiUrl}/api/v1/services/trng`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+      signal: AbortSignal.timeout(TRNG_REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      // A rejected token must not be served to the next request
+      if (response.status === 401) tokenCache.invalidate();
+      const errorText = await response.text();
+      console.error("Orbitport API error:", errorText);
+      throw new Error(`API request failed: ${response.status}`);
+    }
+
+    const seed: OrbitportSeedResponse = await response.json();
+
+    // Reject seeds whose signature does not check out against our pinned keys
+    const verification = verifySeedSignature(seed);
+    if (!isAcceptedSignature(verification)) {
+      throw new Error(
+        `Seed signature rejected: ${verification.status} (${
+          verification.fingerprint || "no key"
+        })`
+      );
+    }
+
+    return {
+      service: seed.service,
+      src: seed.src,
+      data: seed.data,
+      signature: seed.signature,
+      verification,
+      usedFallback: false,
+    };
+  };
+
+  const seedPool = createEntropyPool(requestOrbitportSeed, poolOptions);
+
+  return {
+    name: "orbitport",
+    getSeed: () => seedPool.take(),
+  };
+}
@@ -0,0 +1,127 @@
+import { CHARSETS } from "@/lib/password-generator";
+import { createRandomGenerator, randomIndex } from "@/lib/random";
+import EFF_LARGE_WORDLIST from "@/lib/wordlists/eff-large.json";
+
+export type PassphraseCapitalization = "lower" | "upper" | "title" | "random";
+
+export interface PassphraseParams {
+  wordCount: number;
+  separator: string;
+  capitalization: PassphraseCapitalization;
+  includeNumber: boolean;
+  includeSymbol: boolean;
+}
+
+/** The EFF large wordlist (7776 words, five dice per word). */
+export const PASSPHRASE_WORDLIST: readonly string[] = EFF_LARGE_WORDLIST;
+export const MIN_PASSPHRASE_WORDS = 3;
+export const MAX_PASSPHRASE_WORDS = 20;
+export const MAX_SEPARATOR_LENGTH = 5;
+
+/** Domain separation string for the DRBG used by the passphrase generator. */
+const DRBG_PERSONALIZATION = "cosmic-cipher/passphrase";
+const DIGITS = "0123456789";
+
+/**
+ * Validates passphrase parameters.
+ * @throws Error describing the first invalid parameter.
+ */
+export function validatePassphraseParams(params: PassphraseParams): void {
+  const { wordCount, separator, capitalization } = params;
+  if (
+    !Number.isInteger(wordCount) ||
+    wordCount < MIN_PASSPHRASE_WORDS ||
+    wordCount > MAX_PASSPHRASE_WORDS
+  ) {
+    throw new Error(
+      `Word count must be between ${MIN_PASSPHRASE_WORDS} and ${MAX_PASSPHRASE_WORDS}`
+    );
+  }
+  if (
+    typeof separator !== "string" ||
+    separator.length > MAX_SEPARATOR_LENGTH
+  ) {
+    throw new Error(
+      `Separator must be at most ${MAX_SEPARATOR_LENGTH} characters`
+    );
+  }
+  if (!["lower", "upper", "title", "random"].includes(capitalization)) {
+    throw new Error("Unknown capitalization option");
+  }
+}
+
+/**
+ * Applies the capitalization option to a single word.
+ */
+function capitalize(
+  word: string,
+  capitalization: PassphraseCapitalization,
+  upperFirst: boolean
+): string {
+  switch (capitalization) {
+    case "upper":
+      return word.toUpperCase();
+    case "title":
+      return word[0].toUpperCase() + word.slice(1);
+    case "random":
+      return upperFirst ? word[0].toUpperCase() + word.slice(1) : word;
+    default:
+      return word;
+  }
+}
+
+/**
+ * Generates a diceware-style passphrase from a seed.
+ *
+ * Words are drawn uniformly from the EFF large wordlist. With random
+ * capitalization each word's first letter is uppercased with probability
+ * 1/2; the optional digit and symbol are appended to uniformly chosen words.
+ */
+export function generatePassphraseFromSeed(
+  seed: string,
+  params: PassphraseParams
+): string {
+  validatePassphraseParams(params);
+  const randomValues = createRandomGenerator(seed, DRBG_PERSONALIZATION);
+  const { wordCount, separator, capitalization, includeNumber, includeSymbol } =
+    params;
+
+  const words: string[] = [];
+  for (let i = 0; i < wordCount; i++) {
+    const word =
+      PASSPHRASE_WORDLIST[
+        randomIndex(randomValues, PASSPHRASE_WORDLIST.length)
+      ];
+    const upperFirst =
+      capitalization === "random" && randomIndex(randomValues, 2) === 1;
+    words.push(capitalize(word, capitalization, upperFirst));
+  }
+
+  if (includeNumber) {
+    const target = randomIndex(randomValues, wordCount);
+    words[target] += DIGITS[randomIndex(randomValues, DIGITS.length)];
+  }
+
+  if (includeSymbol) {
+    const target = randomIndex(randomValues, wordCount);
+    words[target] +=
+      CHARSETS.symbols[randomIndex(randomValues, CHARSETS.symbols.length)];
+  }
+
+  return words.join(separator);
+}
+
+/**
+ * Computes the entropy of passphrases generated with the given parameters.
+ *
+ * @returns The entropy in bits, assuming the attacker knows the wordlist and
+ * all parameters.
+ */
+export function estimatePassphraseEntropy(params: PassphraseParams): number {
+  const { wordCount, capitalization, includeNumber, includeSymbol } = params;
+  let bits = wordCount * Math.log2(PASSPHRASE_WORDLIST.length);
+  if (capitalization === "random") bits += wordCount;
+  if (includeNumber) bits += Math.log2(DIGITS.length * wordCount);
+  if (includeSymbol) bits += Math.log2(CHARSETS.symbols.length * wordCount);
+  return bits;
+}
@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CharsetSelection,
+  GenerateParams,
+  generatePasswordFromSeed,
+  MAX_PASSWORD_LENGTH,
+  resolveCharsets,
+  validateGenerateParams,
+  validateGenerationWork,
+} from "@/lib/password-generator";
+import { deriveChildSeed } from "@/lib/random";
+import { assertUniform } from "@/test/chi-square";
+
+const SEED = "5eed".repeat(16);
+const PASSWORDS = 3000;
+
+const PARAMS: GenerateParams = {
+  length: 16,
+  minUpper: 2,
+  minLower: 2,
+  minNumbers: 2,
+  minSymbols: 2,
+  includeUpper: true,
+  includeLower: true,
+  includeNumbers: true,
+  includeSymbols: true,
+};
+
+/**
+ * Generates a batch the way the app does, one child seed per password.
+ */
+function generateBatch(params: GenerateParams, count: number): string[] {
+  return Array.from({ length: count }, (_, index) =>
+    generatePasswordFromSeed(deriveChildSeed(SEED, index), params)
+  );
+}
+
+describe("generatePasswordFromSeed", () => {
+  const charsets = resolveCharsets(PARAMS);
+  const passwords = generateBatch(PARAMS, PASSWORDS);
+
+  for (const key of Object.keys(charsets) as (keyof CharsetSelection)[]) {
+    it(`draws ${key} characters uniformly`, () => {
+      const chars = charsets[key];
+      const counts = new Map(Array.from(chars, (char) => [char, 0]));
+      for (const password of passwords) {
+        for (const char of password) {
+          if (counts.has(char)) counts.set(char, counts.get(char)! + 1);
+        }
+      }
+      assertUniform(Array.from(counts.values()), `${key} characters`);
+    });
+  }
+
+  it("places characters of each class uniformly across positions", () => {
+    const counts = new Array<number>(PARAMS.length).fill(0);
+    for (const password of passwords) {
+      Array.from(password).forEach((char, position) => {
+        if (charsets.numbers.includes(char)) counts[position]++;
+      });
+    }
+    assertUniform(counts, "positions of digits");
+  });
+
+  it("meets every minimum", () => {
+    for (const password of passwords) {
+      assert.equal(password.length, PARAMS.length);
+      for (const [key, min] of [
+        ["uppercase", PARAMS.minUpper],
+        ["lowercase", PARAMS.minLower],
+        ["numbers", PARAMS.minNumbers],
+        ["symbols", PARAMS.minSymbols],
+      ] as const) {
+        const count = Array.from(password).filter((char) =>
+          charsets[key].includes(char)
+        ).length;
+        assert.ok(count >= min, `${password} has ${count} ${key}`);
+      }
+    }
+  });
+
+  it("reproduces the same password from the same seed", () => {
+    assert.equal(
+      generatePasswordFromSeed(SEED, PARAMS),
+      generatePasswordFromSeed(SEED, PARAMS)
+    );
+  });
+});
+
+describe("validateGenerateParams with a custom pool", () => {
+  const params: GenerateParams = {
+    ...PARAMS,
+    minUpper: 0,
+    minSymbols: 0,
+    customCharset: "abcdefghij0123",
+  };
+
+  it("treats classes missing from the pool as not included", () => {
+    const charsets = validateGenerateParams(params);
+    assert.equal(charsets.uppercase, "");
+    assert.equal(charsets.symbols, "");
+    assert.match(generatePasswordFromSeed(SEED, params), /^[a-j0-3]{16}$/);
+  });
+
+  it("rejects a minimum for a class missing from the pool", () => {
+    assert.throws(
+      () => validateGenerateParams({ ...params, minUpper: 1 }),
+      /Uppercase minimum requirement/
+    );
+  });
+
+  it("rejects a pool with no usable characters", () => {
+    assert.throws(
+      () =>
+        validateGenerateParams({
+          ...params,
+          minLower: 0,
+          minNumbers: 0,
+          customCharset: "O0Il1",
+        }),
+      /None of the custom characters/
+    );
+  });
+});
+
+describe("validateGenerationWork", () => {
+  const rules = { ...PARAMS, noSequences: true, maxRepeat: 1 };
+
+  it("accepts the largest batch without rules", () => {
+    validateGenerationWork({ ...PARAMS, length: MAX_PASSWORD_LENGTH }, 500);
+  });
+
+  it("rejects batches the rules would make too expensive", () => {
+    assert.throws(
+      () => validateGenerationWork({ ...rules, length: 256 }, 500),
+      /reject almost every password/
+    );
+    assert.throws(
+      () => validateGenerationWork({ ...rules, length: 128 }, 500),
+      /reject too many passwords for this count and length/
+    );
+    validateGenerationWork({ ...rules, length: 128 }, 10);
+  });
+});
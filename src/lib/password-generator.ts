@@ -1,4 +1,11 @@
-interface GenerateParams {
+import {
+  createRandomGenerator,
+  randomIndex,
+  RandomValues,
+  shuffle,
+} from "@/lib/random";
+
+export interface GenerateParams {
   length: number;
   minUpper: number;
   minLower: number;
@@ -8,41 +15,194 @@ interface GenerateParams {
   includeLower: boolean;
   includeNumbers: boolean;
   includeSymbols: boolean;
+  /** Symbols to draw from. Defaults to `CHARSETS.symbols`. */
+  symbols?: string;
+  /** Drop look-alike characters (`AMBIGUOUS_CHARS`). Defaults to true. */
+  excludeAmbiguous?: boolean;
+  /** Characters that must never appear in the password. */
+  excludeChars?: string;
+  /**
+   * Restricts the password to exactly these characters. Its letters, digits
+   * and remaining characters form the uppercase, lowercase, numbers and
+   * symbols classes, so minimum requirements keep working.
+   */
+  customCharset?: string;
+  /** Require the first character to be a letter. */
+  startWithLetter?: boolean;
+  /** Longest allowed run of one character, e.g. 2 rejects "aaa". */
+  maxRepeat?: number;
+  /** Reject alphabetical, numeric and keyboard runs such as abc, 321, qwe. */
+  noSequences?: boolean;
+  /**
+   * Reject passwords containing this name, ignoring case. Names shorter than
+   * `MIN_USERNAME_LENGTH` are ignored, as Active Directory does.
+   */
+  username?: string;
+}
+
+/** An optional rule a password can violate beyond the class minimums. */
+export type ConstraintRule =
+  "startWithLetter" | "maxRepeat" | "noSequences" | "username";
+
+export interface CharsetSelection {
+  uppercase: string;
+  lowercase: string;
+  numbers: string;
+  symbols: string;
 }
 
-const CHARSETS = {
-  uppercase: "ABCDEFGHIJKLMNPQRSTUVWXYZ", // Excluding O
-  lowercase: "abcdefghijklmnopqrstuvwxyz", // Excluding l
-  numbers: "23456789", // Excluding 0 and 1
+/** Domain separation string for the DRBG used by the password generator. */
+const DRBG_PERSONALIZATION = "cosmic-cipher/password";
+
+export const CHARSETS: CharsetSelection = {
+  uppercase: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  lowercase: "abcdefghijklmnopqrstuvwxyz",
+  numbers: "0123456789",
   symbols: "!@#$%^&*+-=",
 };
 
+export const MAX_PASSWORD_LENGTH = 256;
+
+/** Characters that are easily confused with one another. */
+export const AMBIGUOUS_CHARS = "O0Il1";
+
+/** Shortest username that `username` rejects. */
+export const MIN_USERNAME_LENGTH = 3;
+
+/** Length of the runs that `noSequences` rejects. */
+const SEQUENCE_LENGTH = 3;
+
+/** Alphabetical, numeric and keyboard row orders, checked both ways. */
+const SEQUENCES = [
+  "abcdefghijklmnopqrstuvwxyz",
+  "0123456789",
+  "1234567890",
+  "qwertyuiop",
+  "asdfghjkl",
+  "zxcvbnm",
+];
+
+const SEQUENCE_RUNS = new Set(
+  SEQUENCES.flatMap((sequence) =>
+    [sequence, sequence.split("").reverse().join("")].flatMap((order) =>
+      Array.from({ length: order.length - SEQUENCE_LENGTH + 1 }, (_, i) =>
+        order.slice(i, i + SEQUENCE_LENGTH)
+      )
+    )
+  )
+);
+
 /**
- * Creates a deterministic random number generator from a seed
+ * Characters one request may be expected to draw, including candidates the
+ * rules reject. Bounds the time a single request can keep the server busy.
  */
-function createRandomGenerator(seed: string) {
-  const seedBytes = new Uint8Array(Buffer.from(seed, "hex"));
-  let position = 0;
+export const MAX_GENERATION_WORK = 256000;
 
-  return (length: number): Uint8Array => {
-    const result = new Uint8Array(length);
-    for (let i = 0; i < length; i++) {
-      result[i] = seedBytes[position % seedBytes.length];
-      position++;
-    }
-    return result;
+/**
+ * Candidates drawn for one password before giving up on the rules, so even
+ * the longest password draws no more than `MAX_GENERATION_WORK` characters.
+ */
+const MAX_CANDIDATES = MAX_GENERATION_WORK / MAX_PASSWORD_LENGTH;
+
+/**
+ * Smallest share of candidates the rules may accept. At this rate the
+ * chance of `MAX_CANDIDATES` rejections in a row is below 1e-22.
+ */
+const MIN_RULE_ACCEPTANCE = 0.05;
+
+/** Candidates sampled to estimate the share the rules accept. */
+const ACCEPTANCE_SAMPLES = 2000;
+
+/** Fixed seed for the acceptance estimate, so it is reproducible. */
+const ACCEPTANCE_SEED = 0x9e3779b9;
+
+/** Last acceptance estimate, since the UI asks again on every render. */
+let cachedAcceptance: { key: string; acceptance: number } | null = null;
+
+const CLASS_LABELS: Record<keyof CharsetSelection, string> = {
+  uppercase: "Uppercase",
+  lowercase: "Lowercase",
+  numbers: "Numbers",
+  symbols: "Symbols",
+};
+
+/**
+ * Removes duplicate characters while keeping the first occurrence order.
+ */
+function uniqueChars(chars: string): string {
+  return Array.from(new Set(chars)).join("");
+}
+
+/**
+ * Splits a custom pool into classes: its uppercase letters, lowercase
+ * letters, digits and every other non-whitespace character as symbols.
+ */
+export function splitCustomCharset(customCharset: string): CharsetSelection {
+  const pool = uniqueChars(customCharset.replace(/\s/g, ""));
+  return {
+    uppercase: pool.replace(/[^A-Z]/g, ""),
+    lowercase: pool.replace(/[^a-z]/g, ""),
+    numbers: pool.replace(/[^0-9]/g, ""),
+    symbols: pool.replace(/[A-Za-z0-9]/g, ""),
   };
 }
 
 /**
- * Generates a password from a seed with the specified parameters
+ * Resolves the characters available for each class after applying the
+ * custom pool, the symbol set and the exclusion rules. Classes that are not
+ * included resolve to an empty string.
+ *
+ * @throws Error if the symbol set contains letters, numbers or whitespace.
  */
-export function generatePasswordFromSeed(
-  seed: string,
-  params: GenerateParams
-): string {
-  const randomValues = createRandomGenerator(seed);
+export function resolveCharsets(params: GenerateParams): CharsetSelection {
+  const {
+    includeUpper,
+    includeLower,
+    includeNumbers,
+    includeSymbols,
+    symbols = CHARSETS.symbols,
+    excludeAmbiguous = true,
+    excludeChars = "",
+    customCharset,
+  } = params;
+
+  if (/[A-Za-z0-9\s]/.test(symbols)) {
+    throw new Error("Symbols may not contain letters, numbers or whitespace");
+  }
+
+  const base: CharsetSelection =
+    customCharset !== undefined
+      ? splitCustomCharset(customCharset)
+      : { ...CHARSETS, symbols };
+
+  const excluded = new Set(
+    excludeChars + (excludeAmbiguous ? AMBIGUOUS_CHARS : "")
+  );
+  const filter = (chars: string, included: boolean) =>
+    included
+      ? uniqueChars(chars)
+          .split("")
+          .filter((char) => !excluded.has(char))
+          .join("")
+      : "";
+
+  return {
+    uppercase: filter(base.uppercase, includeUpper),
+    lowercase: filter(base.lowercase, includeLower),
+    numbers: filter(base.numbers, includeNumbers),
+    symbols: filter(base.symbols, includeSymbols),
+  };
+}
 
+/**
+ * Validates password parameters and resolves the available character sets.
+ *
+ * @returns The characters available for each class.
+ * @throws Error describing the first parameter that cannot be satisfied.
+ */
+export function validateGenerateParams(
+  params: GenerateParams
+): CharsetSelection {
   const {
     length,
     minUpper,
@@ -53,20 +213,60 @@ export function generatePasswordFromSeed(
     includeLower,
     includeNumbers,
     includeSymbols,
+    customCharset,
   } = params;
 
-  // Build available character sets based on user selection
-  const availableCharsets: { [key: string]: string } = {};
-  if (includeUpper) availableCharsets.uppercase = CHARSETS.uppercase;
-  if (includeLower) availableCharsets.lowercase = CHARSETS.lowercase;
-  if (includeNumbers) availableCharsets.numbers = CHARSETS.numbers;
-  if (includeSymbols) availableCharsets.symbols = CHARSETS.symbols;
+  if (!Number.isInteger(length) || length < 1 || length > MAX_PASSWORD_LENGTH) {
+    throw new Error(
+      `Password length must be between 1 and ${MAX_PASSWORD_LENGTH}`
+    );
+  }
+  if (
+    [minUpper, minLower, minNumbers, minSymbols].some(
+      (min) => !Number.isInteger(min) || min < 0
+    )
+  ) {
+    throw new Error("Minimum requirements must be non-negative integers");
+  }
 
   // Ensure at least one character type is selected
-  if (Object.keys(availableCharsets).length === 0) {
+  if (!includeUpper && !includeLower && !includeNumbers && !includeSymbols) {
     throw new Error("At least one character type must be selected");
   }
 
+  // Build available character sets based on user selection
+  const availableCharsets = resolveCharsets(params);
+  const included: Record<keyof CharsetSelection, boolean> = {
+    uppercase: includeUpper,
+    lowercase: includeLower,
+    numbers: includeNumbers,
+    symbols: includeSymbols,
+  };
+  const minimums: Record<keyof CharsetSelection, number> = {
+    uppercase: minUpper,
+    lowercase: minLower,
+    numbers: minNumbers,
+    symbols: minSymbols,
+  };
+  for (const key of Object.keys(CLASS_LABELS) as (keyof CharsetSelection)[]) {
+    if (!included[key] || availableCharsets[key].length > 0) continue;
+    // A custom pool decides which classes exist, so a class missing from it
+    // only matters when a minimum asks for it
+    if (customCharset === undefined) {
+      throw new Error(
+        `${CLASS_LABELS[key]} included but none of its characters are available`
+      );
+    }
+    if (minimums[key] > 0) {
+      throw new Error(
+        `${CLASS_LABELS[key]} minimum requirement specified but the custom characters contain none`
+      );
+    }
+  }
+  if (Object.values(availableCharsets).every((chars) => chars === "")) {
+    throw new Error("None of the custom characters are available");
+  }
+
   // Validate that minimum requirements don't exceed available character types
   if (minUpper > 0 && !includeUpper) {
     throw new Error(
@@ -100,43 +300,239 @@ export function generatePasswordFromSeed(
     throw new Error("Minimum requirements exceed password length");
   }
 
+  const { startWithLetter, maxRepeat, username } = params;
+  if (
+    startWithLetter &&
+    !availableCharsets.uppercase &&
+    !availableCharsets.lowercase
+  ) {
+    throw new Error("Starting with a letter requires letters to be included");
+  }
+  if (
+    maxRepeat !== undefined &&
+    (!Number.isInteger(maxRepeat) || maxRepeat < 1)
+  ) {
+    throw new Error("Maximum repeated characters must be a positive integer");
+  }
+  if (username !== undefined && typeof username !== "string") {
+    throw new Error("Username must be a string");
+  }
+
+  return availableCharsets;
+}
+
+/**
+ * Lists the optional constraint rules a password violates.
+ *
+ * @param password - The password to check.
+ * @param params - The parameters holding the rules.
+ * @returns The violated rules, empty if the password passes all of them.
+ */
+export function findRuleViolations(
+  password: string,
+  params: GenerateParams
+): ConstraintRule[] {
+  const { startWithLetter, maxRepeat, noSequences, username } = params;
+  const chars = Array.from(password);
+  const lower = password.toLowerCase();
+  const violations: ConstraintRule[] = [];
+
+  if (startWithLetter && !/^[A-Za-z]/.test(password)) {
+    violations.push("startWithLetter");
+  }
+  if (maxRepeat !== undefined) {
+    let run = 1;
+    for (let i = 1; i < chars.length && run <= maxRepeat; i++) {
+      run = chars[i] === chars[i - 1] ? run + 1 : 1;
+    }
+    if (run > maxRepeat) violations.push("maxRepeat");
+  }
+  if (noSequences) {
+    for (let i = 0; i + SEQUENCE_LENGTH <= lower.length; i++) {
+      if (SEQUENCE_RUNS.has(lower.slice(i, i + SEQUENCE_LENGTH))) {
+        violations.push("noSequences");
+        break;
+      }
+    }
+  }
+  if (
+    username &&
+    username.length >= MIN_USERNAME_LENGTH &&
+    lower.includes(username.toLowerCase())
+  ) {
+    violations.push("username");
+  }
+
+  return violations;
+}
+
+/**
+ * Checks whether any optional constraint rule is set.
+ */
+function hasConstraintRules(params: GenerateParams): boolean {
+  return (
+    !!params.startWithLetter ||
+    params.maxRepeat !== undefined ||
+    !!params.noSequences ||
+    (params.username?.length ?? 0) >= MIN_USERNAME_LENGTH
+  );
+}
+
+/**
+ * Draws one candidate: the minimum characters of each class, the rest from
+ * all available characters, then an unbiased shuffle.
+ */
+function drawCandidate(
+  randomValues: RandomValues,
+  availableCharsets: CharsetSelection,
+  params: GenerateParams
+): string {
+  const { length, minUpper, minLower, minNumbers, minSymbols } = params;
+  const totalMin = minUpper + minLower + minNumbers + minSymbols;
+
   let password = "";
   const remainingLength = length - totalMin;
 
   // Add minimum required characters
   for (let i = 0; i < minUpper; i++) {
-    const randomIndex = randomValues(1)[0] % availableCharsets.uppercase.length;
-    password += availableCharsets.uppercase[randomIndex];
+    const index = randomIndex(randomValues, availableCharsets.uppercase.length);
+    password += availableCharsets.uppercase[index];
   }
 
   for (let i = 0; i < minLower; i++) {
-    const randomIndex = randomValues(1)[0] % availableCharsets.lowercase.length;
-    password += availableCharsets.lowercase[randomIndex];
+    const index = randomIndex(randomValues, availableCharsets.lowercase.length);
+    password += availableCharsets.lowercase[index];
   }
 
   for (let i = 0; i < minNumbers; i++) {
-    const randomIndex = randomValues(1)[0] % availableCharsets.numbers.length;
-    password += availableCharsets.numbers[randomIndex];
+    const index = randomIndex(randomValues, availableCharsets.numbers.length);
+    password += availableCharsets.numbers[index];
   }
 
   for (let i = 0; i < minSymbols; i++) {
-    const randomIndex = randomValues(1)[0] % availableCharsets.symbols.length;
-    password += availableCharsets.symbols[randomIndex];
+    const index = randomIndex(randomValues, availableCharsets.symbols.length);
+    password += availableCharsets.symbols[index];
   }
 
   // Fill remaining length with random characters from all available sets
   const allAvailableChars = Object.values(availableCharsets).join("");
   for (let i = 0; i < remainingLength; i++) {
-    const randomIndex = randomValues(1)[0] % allAvailableChars.length;
-    password += allAvailableChars[randomIndex];
+    const index = randomIndex(randomValues, allAvailableChars.length);
+    password += allAvailableChars[index];
   }
 
   // Shuffle the password
-  const passwordArray = password.split("");
-  for (let i = passwordArray.length - 1; i > 0; i--) {
-    const j = randomValues(1)[0] % (i + 1);
-    [passwordArray[i], passwordArray[j]] = [passwordArray[j], passwordArray[i]];
+  return shuffle(randomValues, password.split("")).join("");
+}
+
+/**
+ * Creates a fast, non-cryptographic byte stream (mulberry32) for sampling
+ * statistics. Never use it for passwords.
+ */
+function createSamplingGenerator(seed: number): RandomValues {
+  let state = seed | 0;
+  let word = 0;
+  let available = 0;
+  return (length) => {
+    const result = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      if (available === 0) {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        word = (t ^ (t >>> 14)) >>> 0;
+        available = 4;
+      }
+      result[i] = word & 0xff;
+      word >>>= 8;
+      available--;
+    }
+    return result;
+  };
+}
+
+/**
+ * Estimates the share of candidates that pass the optional constraint rules
+ * by drawing `ACCEPTANCE_SAMPLES` of them from a fixed seed. The estimate is
+ * deterministic, so the same parameters always report the same entropy.
+ *
+ * @returns The accepted share in (0, 1], exactly 1 without rules.
+ * @throws Error if the parameters are invalid or the rules reject nearly
+ *   every candidate.
+ */
+export function estimateRuleAcceptance(params: GenerateParams): number {
+  const availableCharsets = validateGenerateParams(params);
+  if (!hasConstraintRules(params)) return 1;
+
+  const key = JSON.stringify(params);
+  if (cachedAcceptance?.key === key) return cachedAcceptance.acceptance;
+
+  const randomValues = createSamplingGenerator(ACCEPTANCE_SEED);
+  let accepted = 0;
+  for (let i = 0; i < ACCEPTANCE_SAMPLES; i++) {
+    const candidate = drawCandidate(randomValues, availableCharsets, params);
+    if (findRuleViolations(candidate, params).length === 0) accepted++;
+  }
+
+  const acceptance = accepted / ACCEPTANCE_SAMPLES;
+  if (acceptance < MIN_RULE_ACCEPTANCE) {
+    throw new Error(
+      "The constraint rules reject almost every password, relax them or allow more characters"
+    );
   }
+  cachedAcceptance = { key, acceptance };
+  return acceptance;
+}
+
+/**
+ * Checks that a batch of passwords is expected to draw no more than
+ * `MAX_GENERATION_WORK` characters, counting the candidates the rules reject.
+ *
+ * @param params - The password parameters.
+ * @param count - Number of passwords in the batch.
+ * @param acceptance - The share of candidates the rules accept, if already
+ *   estimated.
+ * @throws Error if the parameters are invalid or the batch is too large.
+ */
+export function validateGenerationWork(
+  params: GenerateParams,
+  count: number,
+  acceptance?: number
+): void {
+  validateGenerateParams(params);
+  const work =
+    (count * params.length) / (acceptance ?? estimateRuleAcceptance(params));
+  if (work > MAX_GENERATION_WORK) {
+    throw new Error(
+      "The constraint rules reject too many passwords for this count and length, lower either or relax the rules"
+    );
+  }
+}
 
-  return passwordArray.join("");
+/**
+ * Generates a password from a seed with the specified parameters.
+ *
+ * Every character selection and every shuffle swap is drawn uniformly via
+ * rejection sampling, so each character of a charset is equally likely at
+ * each draw and the shuffle yields every permutation with equal probability.
+ * Candidates that break an optional constraint rule are discarded whole and
+ * redrawn, so the result is distributed exactly like an unconstrained
+ * password restricted to those that pass. Without rules the first candidate
+ * is always kept, which keeps existing seeds reproducing the same password.
+ *
+ * @throws Error if the parameters are invalid or no candidate passes the
+ *   rules within `MAX_CANDIDATES` draws.
+ */
+export function generatePasswordFromSeed(
+  seed: string,
+  params: GenerateParams
+): string {
+  const availableCharsets = validateGenerateParams(params);
+  const randomValues = createRandomGenerator(seed, DRBG_PERSONALIZATION);
+
+  for (let attempt = 0; attempt < MAX_CANDIDATES; attempt++) {
+    const candidate = drawCandidate(randomValues, availableCharsets, params);
+    if (findRuleViolations(candidate, params).length === 0) return candidate;
+  }
+  throw new Error("No password satisfying the constraint rules was found");
 }
@@ -0,0 +1,346 @@
+import {
+  CHARSETS,
+  GenerateParams,
+  MAX_PASSWORD_LENGTH,
+} from "@/lib/password-generator";
+
+/**
+ * A password policy of a target system, in the JSON format used for policy
+ * import and export.
+ */
+export interface PasswordPolicy {
+  name: string;
+  description?: string;
+  /** Shortest and longest password the target system accepts. */
+  minLength: number;
+  maxLength: number;
+  /** Length to generate, within the range above. */
+  length: number;
+  includeUpper: boolean;
+  includeLower: boolean;
+  includeNumbers: boolean;
+  includeSymbols: boolean;
+  minUpper: number;
+  minLower: number;
+  minNumbers: number;
+  minSymbols: number;
+  /**
+   * Minimum number of character types (uppercase, lowercase, numbers,
+   * symbols) a password must contain, e.g. 3 for "three of four".
+   */
+  minCharacterTypes?: number;
+  /** Symbols to generate with, defaults to the standard set. */
+  symbols?: string;
+  /**
+   * Characters to generate with instead of the standard sets, split into the
+   * character types above.
+   */
+  customCharset?: string;
+  /**
+   * Characters the target system accepts, defaults to printable ASCII and
+   * space. Only used to check passwords; generation uses `symbols`.
+   */
+  allowedChars?: string;
+  /** Characters the target system rejects. */
+  forbiddenChars?: string;
+  excludeAmbiguous?: boolean;
+  startWithLetter?: boolean;
+  /** Longest allowed run of one repeated character. */
+  maxRepeat?: number;
+  /** Rejects alphabetical, numeric and keyboard sequences. */
+  noSequences?: boolean;
+}
+
+/** Printable ASCII characters, including space. */
+export const DEFAULT_ALLOWED_CHARS = Array.from({ length: 95 }, (_, i) =>
+  String.fromCharCode(32 + i)
+).join("");
+
+/** Number of character types counted by `minCharacterTypes`. */
+export const CHARACTER_TYPE_COUNT = 4;
+
+export type PolicyPresetId =
+  "nist-800-63b" | "pci-dss" | "aws-iam" | "entra-id" | "ad-complexity";
+
+export const POLICY_PRESETS: Record<PolicyPresetId, PasswordPolicy> = {
+  "nist-800-63b": {
+    name: "NIST SP 800-63B",
+    description:
+      "At least 15 characters, no composition rules; length is what counts",
+    minLength: 15,
+    maxLength: 64,
+    length: 20,
+    includeUpper: true,
+    includeLower: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    minUpper: 0,
+    minLower: 0,
+    minNumbers: 0,
+    minSymbols: 0,
+  },
+  "pci-dss": {
+    name: "PCI DSS 4.0",
+    description: "At least 12 characters with both letters and numbers",
+    minLength: 12,
+    maxLength: MAX_PASSWORD_LENGTH,
+    length: 16,
+    includeUpper: true,
+    includeLower: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    minUpper: 0,
+    minLower: 1,
+    minNumbers: 1,
+    minSymbols: 0,
+  },
+  "aws-iam": {
+    name: "AWS IAM",
+    description:
+      "8 to 128 characters; upper, lower, numbers and AWS-accepted symbols",
+    minLength: 8,
+    maxLength: 128,
+    length: 20,
+    includeUpper: true,
+    includeLower: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    minUpper: 1,
+    minLower: 1,
+    minNumbers: 1,
+    minSymbols: 1,
+    symbols: "!@#$%^&*()_+-=[]{}|'",
+  },
+  "entra-id": {
+    name: "Microsoft Entra ID",
+    description:
+      "8 to 256 characters from at least three character types; all four are used",
+    minLength: 8,
+    maxLength: 256,
+    length: 16,
+    includeUpper: true,
+    includeLower: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    minUpper: 0,
+    minLower: 0,
+    minNumbers: 0,
+    minSymbols: 0,
+    minCharacterTypes: 3,
+  },
+  "ad-complexity": {
+    name: "Active Directory complexity",
+    description:
+      "Complexity requirements: at least three character types; all four are used",
+    minLength: 7,
+    maxLength: 127,
+    length: 14,
+    includeUpper: true,
+    includeLower: true,
+    includeNumbers: true,
+    includeSymbols: true,
+    minUpper: 0,
+    minLower: 0,
+    minNumbers: 0,
+    minSymbols: 0,
+    minCharacterTypes: 3,
+  },
+};
+
+type Body = Record<string, unknown>;
+
+function readInteger(body: Body, key: string): number {
+  const value = body[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Policy ${key} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function readBoolean(body: Body, key: string): boolean {
+  const value = body[key];
+  if (typeof value !== "boolean") {
+    throw new Error(`Policy ${key} must be a boolean`);
+  }
+  return value;
+}
+
+function readOptionalInteger(body: Body, key: string): number | undefined {
+  return body[key] === undefined ? undefined : readInteger(body, key);
+}
+
+function readOptionalBoolean(body: Body, key: string): boolean | undefined {
+  return body[key] === undefined ? undefined : readBoolean(body, key);
+}
+
+function readOptionalString(body: Body, key: string): string | undefined {
+  const value = body[key];
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`Policy ${key} must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Parses and validates an untrusted policy, e.g. an imported JSON file.
+ *
+ * @param input - The parsed policy JSON.
+ * @returns The validated policy.
+ * @throws Error describing the first invalid field.
+ */
+export function parsePolicy(input: unknown): PasswordPolicy {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new Error("Policy must be a JSON object");
+  }
+  const body = input as Body;
+
+  const name = body.name;
+  if (typeof name !== "string" || name.trim() === "") {
+    throw new Error("Policy name must be a non-empty string");
+  }
+
+  const policy: PasswordPolicy = {
+    name,
+    description: readOptionalString(body, "description"),
+    minLength: readInteger(body, "minLength"),
+    maxLength: readInteger(body, "maxLength"),
+    length: readInteger(body, "length"),
+    includeUpper: readBoolean(body, "includeUpper"),
+    includeLower: readBoolean(body, "includeLower"),
+    includeNumbers: readBoolean(body, "includeNumbers"),
+    includeSymbols: readBoolean(body, "includeSymbols"),
+    minUpper: readInteger(body, "minUpper"),
+    minLower: readInteger(body, "minLower"),
+    minNumbers: readInteger(body, "minNumbers"),
+    minSymbols: readInteger(body, "minSymbols"),
+    minCharacterTypes: readOptionalInteger(body, "minCharacterTypes"),
+    symbols: readOptionalString(body, "symbols"),
+    customCharset: readOptionalString(body, "customCharset"),
+    allowedChars: readOptionalString(body, "allowedChars"),
+    forbiddenChars: readOptionalString(body, "forbiddenChars"),
+    excludeAmbiguous: readOptionalBoolean(body, "excludeAmbiguous"),
+    startWithLetter: readOptionalBoolean(body, "startWithLetter"),
+    maxRepeat: readOptionalInteger(body, "maxRepeat"),
+    noSequences: readOptionalBoolean(body, "noSequences"),
+  };
+
+  if (policy.minLength > policy.maxLength) {
+    throw new Error("Policy minLength must not exceed maxLength");
+  }
+  const includedTypes = [
+    policy.includeUpper,
+    policy.includeLower,
+    policy.includeNumbers,
+    policy.includeSymbols,
+  ].filter(Boolean).length;
+  if ((policy.minCharacterTypes ?? 0) > includedTypes) {
+    throw new Error(
+      "Policy minCharacterTypes must not exceed the number of included character types"
+    );
+  }
+  if (policy.allowedChars === "") {
+    throw new Error("Policy allowedChars must not be empty");
+  }
+  validatePolicyLength(policy, policy.length);
+  return policy;
+}
+
+/**
+ * Checks that a length is within a policy's range.
+ * @throws Error if it is not.
+ */
+export function validatePolicyLength(
+  policy: PasswordPolicy,
+  length: number
+): void {
+  if (length < policy.minLength || length > policy.maxLength) {
+    throw new Error(
+      `${policy.name} requires a length between ${policy.minLength} and ${policy.maxLength}`
+    );
+  }
+}
+
+/**
+ * Converts a policy into generator parameters. When the policy requires a
+ * number of character types, every included type gets a minimum of at least
+ * one, so generated passwords always meet it.
+ */
+export function policyToParams(policy: PasswordPolicy): GenerateParams {
+  const typeMinimum = (policy.minCharacterTypes ?? 0) > 0 ? 1 : 0;
+  const minimum = (included: boolean, min: number) =>
+    included ? Math.max(min, typeMinimum) : min;
+  return {
+    length: policy.length,
+    minUpper: minimum(policy.includeUpper, policy.minUpper),
+    minLower: minimum(policy.includeLower, policy.minLower),
+    minNumbers: minimum(policy.includeNumbers, policy.minNumbers),
+    minSymbols: minimum(policy.includeSymbols, policy.minSymbols),
+    includeUpper: policy.includeUpper,
+    includeLower: policy.includeLower,
+    includeNumbers: policy.includeNumbers,
+    includeSymbols: policy.includeSymbols,
+    symbols: policy.symbols ?? CHARSETS.symbols,
+    customCharset: policy.customCharset || undefined,
+    excludeAmbiguous: policy.excludeAmbiguous ?? true,
+    excludeChars: policy.forbiddenChars,
+    startWithLetter: policy.startWithLetter,
+    maxRepeat: policy.maxRepeat,
+    noSequences: policy.noSequences,
+  };
+}
+
+/**
+ * Describes generator parameters as a policy for export. The current length
+ * becomes the minimum, since shorter passwords were never intended.
+ *
+ * @param params - The generator parameters.
+ * @param name - Name of the exported policy.
+ * @returns The policy.
+ */
+export function paramsToPolicy(
+  params: GenerateParams,
+  name: string
+): PasswordPolicy {
+  return {
+    name,
+    minLength: params.length,
+    maxLength: MAX_PASSWORD_LENGTH,
+    length: params.length,
+    includeUpper: params.includeUpper,
+    includeLower: params.includeLower,
+    includeNumbers: params.includeNumbers,
+    includeSymbols: params.includeSymbols,
+    minUpper: params.minUpper,
+    minLower: params.minLower,
+    minNumbers: params.minNumbers,
+    minSymbols: params.minSymbols,
+    symbols: params.symbols,
+    customCharset: params.customCharset || undefined,
+    forbiddenChars: params.excludeChars || undefined,
+    excludeAmbiguous: params.excludeAmbiguous,
+    startWithLetter: params.startWithLetter || undefined,
+    maxRepeat: params.maxRepeat,
+    noSequences: params.noSequences || undefined,
+  };
+}
+
+/**
+ * Resolves a policy from an API request: either a preset id or an inline
+ * policy object.
+ *
+ * @throws Error if the preset is unknown or the policy is invalid.
+ */
+export function resolvePolicy(value: unknown): PasswordPolicy {
+  if (typeof value === "string") {
+    // Not `in`, which also matches inherited keys such as "toString"
+    if (!Object.hasOwn(POLICY_PRESETS, value)) {
+      throw new Error(
+        `Unknown policy preset. Available presets: ${Object.keys(
+          POLICY_PRESETS
+        ).join(", ")}`
+      );
+    }
+    return POLICY_PRESETS[value as PolicyPresetId];
+  }
+  return parsePolicy(value);
+}
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRandomGenerator, randomIndex, shuffle } from "@/lib/random";
+import { assertUniform } from "@/test/chi-square";
+
+const SEED = "5eed".repeat(16);
+/** Expected draws per category, enough to expose a bias of a few percent. */
+const DRAWS_PER_CATEGORY = 400;
+
+describe("randomIndex", () => {
+  for (const max of [3, 7, 10, 25, 54, 61]) {
+    it(`is uniform over [0, ${max})`, () => {
+      const randomValues = createRandomGenerator(SEED, `test/index/${max}`);
+      const counts = new Array<number>(max).fill(0);
+      for (let i = 0; i < max * DRAWS_PER_CATEGORY; i++) {
+        counts[randomIndex(randomValues, max)]++;
+      }
+      assertUniform(counts, `randomIndex(${max})`);
+    });
+  }
+
+  it("is uniform for ranges that divide 2^32 very unevenly", () => {
+    // Plain modulo reduction would make the first third twice as likely
+    const max = 3 * 2 ** 30;
+    const randomValues = createRandomGenerator(SEED, "test/index/large");
+    const counts = [0, 0, 0];
+    for (let i = 0; i < 3 * DRAWS_PER_CATEGORY; i++) {
+      counts[Math.floor(randomIndex(randomValues, max) / 2 ** 30)]++;
+    }
+    assertUniform(counts, "randomIndex(3 * 2^30) thirds");
+  });
+
+  it("rejects invalid ranges", () => {
+    const randomValues = createRandomGenerator(SEED, "test/index/invalid");
+    for (const max of [0, -1, 1.5, 2 ** 32 + 1]) {
+      assert.throws(() => randomIndex(randomValues, max));
+    }
+  });
+});
+
+describe("shuffle", () => {
+  it("puts every item at every position equally often", () => {
+    const size = 7;
+    const randomValues = createRandomGenerator(SEED, "test/shuffle/positions");
+    const counts = Array.from({ length: size }, () =>
+      new Array<number>(size).fill(0)
+    );
+    for (let round = 0; round < size * DRAWS_PER_CATEGORY; round++) {
+      const items = shuffle(
+        randomValues,
+        Array.from({ length: size }, (_, i) => i)
+      );
+      items.forEach((item, position) => counts[item][position]++);
+    }
+    counts.forEach((positions, item) =>
+      assertUniform(positions, `shuffle positions of item ${item}`)
+    );
+  });
+
+  it("produces every permutation equally often", () => {
+    const randomValues = createRandomGenerator(SEED, "test/shuffle/perms");
+    const counts = new Map<string, number>();
+    for (let round = 0; round < 24 * DRAWS_PER_CATEGORY; round++) {
+      const key = shuffle(randomValues, ["a", "b", "c", "d"]).join("");
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    assert.equal(counts.size, 24);
+    assertUniform(Array.from(counts.values()), "shuffle permutations");
+  });
+});
@@ -0,0 +1,106 @@
+import { createHmacDrbg, DRBG_MIN_ENTROPY_BYTES } from "@/lib/drbg";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@/lib/encoding";
+import { hkdfSha256 } from "@/lib/sha256";
+
+/** Returns the next `length` bytes of a deterministic random stream. */
+export type RandomValues = (length: number) => Uint8Array;
+
+/** Number of bytes pulled from the DRBG per generate call. */
+const RANDOM_BLOCK_BYTES = 64;
+/** HKDF info prefix for child seeds. */
+const CHILD_SEED_INFO = "cosmic-cipher/child";
+
+/**
+ * Creates a deterministic random number generator from a seed.
+ *
+ * The seed instantiates an HMAC-DRBG, so arbitrarily many bytes can be drawn
+ * without ever reusing seed material, and the same seed always reproduces
+ * the same stream. Each generator kind passes its own personalization string
+ * so different modes never share a stream for the same seed.
+ */
+export function createRandomGenerator(
+  seed: string,
+  personalization: string
+): RandomValues {
+  let seedBytes: Uint8Array;
+  try {
+    seedBytes = hexToBytes(seed);
+  } catch {
+    throw new Error("Seed must be a hex string");
+  }
+  if (seedBytes.length < DRBG_MIN_ENTROPY_BYTES) {
+    throw new Error(
+      `Seed must contain at least ${DRBG_MIN_ENTROPY_BYTES} bytes of entropy`
+    );
+  }
+
+  const drbg = createHmacDrbg(seedBytes, utf8ToBytes(personalization));
+  let block: Uint8Array = new Uint8Array(0);
+  let position = 0;
+
+  return (length) => {
+    const result = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      if (position >= block.length) {
+        block = drbg.generate(RANDOM_BLOCK_BYTES);
+        position = 0;
+      }
+      result[i] = block[position++];
+    }
+    return result;
+  };
+}
+
+/**
+ * Draws a uniformly distributed integer in [0, max) from the generator.
+ *
+ * Reduces 32-bit draws with rejection sampling: values at or above the
+ * largest multiple of `max` below 2^32 are discarded and redrawn, so every
+ * index is equally likely regardless of whether `max` divides 2^32.
+ */
+export function randomIndex(randomValues: RandomValues, max: number): number {
+  if (!Number.isInteger(max) || max <= 0 || max > 0x100000000) {
+    throw new Error("Random index range must be a positive integer");
+  }
+  const limit = Math.floor(0x100000000 / max) * max;
+  for (;;) {
+    const bytes = randomValues(4);
+    const value =
+      ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+    if (value < limit) return value % max;
+  }
+}
+
+/**
+ * Shuffles an array in place with an unbiased Fisher–Yates shuffle.
+ */
+export function shuffle<T>(randomValues: RandomValues, items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = randomIndex(randomValues, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Derives an independent child seed from a seed, e.g. one per password of a
+ * batch, with HKDF-SHA256. Any child can be re-derived from the parent seed
+ * and its index alone.
+ *
+ * @param seed - The parent seed as hex.
+ * @param index - The zero-based child index.
+ * @returns The 32 byte child seed as hex.
+ */
+export function deriveChildSeed(seed: string, index: number): string {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error("Child seed index must be a non-negative integer");
+  }
+  return bytesToHex(
+    hkdfSha256(
+      hexToBytes(seed),
+      new Uint8Array(0),
+      utf8ToBytes(`${CHILD_SEED_INFO}/${index}`),
+      32
+    )
+  );
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import {
+  createMemoryRateLimitStore,
+  getRateLimitKeys,
+  RateLimitPolicy,
+} from "@/lib/rate-limit";
+
+function request(headers: Record<string, string>): NextRequest {
+  return new NextRequest("http://localhost/api/random", { headers });
+}
+
+describe("getRateLimitKeys", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.RATE_LIMIT_API_KEYS;
+    delete process.env.RATE_LIMIT_TRUSTED_PROXIES;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("takes the client IP from the entry added by the trusted proxy", () => {
+    const headers = { "x-forwarded-for": "1.1.1.1, 2.2.2.2, 3.3.3.3" };
+    assert.deepEqual(getRateLimitKeys(request(headers)), ["ip:3.3.3.3"]);
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "2";
+    assert.deepEqual(getRateLimitKeys(request(headers)), ["ip:2.2.2.2"]);
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "5";
+    assert.deepEqual(getRateLimitKeys(request(headers)), ["ip:1.1.1.1"]);
+  });
+
+  it("ignores X-Forwarded-For without trusted proxies", () => {
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "0";
+    const headers = { "x-forwarded-for": "1.1.1.1", "x-real-ip": "4.4.4.4" };
+    assert.deepEqual(getRateLimitKeys(request(headers)), ["ip:4.4.4.4"]);
+  });
+
+  it("ignores API keys that are not configured", () => {
+    const headers = { "x-forwarded-for": "1.1.1.1", "x-api-key": "guess" };
+    assert.deepEqual(getRateLimitKeys(request(headers)), ["ip:1.1.1.1"]);
+  });
+
+  it("adds a bucket for configured API keys", () => {
+    process.env.RATE_LIMIT_API_KEYS = "alpha, beta";
+    const byHeader = getRateLimitKeys(
+      request({ "x-forwarded-for": "1.1.1.1", "x-api-key": "beta" })
+    );
+    const byBearer = getRateLimitKeys(
+      request({ "x-forwarded-for": "2.2.2.2", authorization: "Bearer beta" })
+    );
+    assert.equal(byHeader.length, 2);
+    assert.equal(byHeader[0], "ip:1.1.1.1");
+    assert.match(byHeader[1], /^key:[0-9a-f]{32}$/);
+    assert.equal(byHeader[1], byBearer[1]);
+    assert.ok(!byHeader[1].includes("beta"));
+  });
+});
+
+describe("createMemoryRateLimitStore", () => {
+  const policy: RateLimitPolicy = { capacity: 2, refillPerSecond: 1 / 60 };
+
+  it("refuses requests once the bucket is empty", async () => {
+    const store = createMemoryRateLimitStore();
+    assert.equal((await store.consume("ip:a", policy, 0)).allowed, true);
+    assert.equal((await store.consume("ip:a", policy, 0)).allowed, true);
+    const refused = await store.consume("ip:a", policy, 0);
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.retryAfterSeconds, 60);
+    assert.equal((await store.consume("ip:a", policy, 60000)).allowed, true);
+  });
+
+  it("evicts the least recently used bucket once full", async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume("ip:old", policy, 0);
+    await store.consume("ip:recent", policy, 0);
+    for (let i = 0; i < 9998; i++) {
+      await store.consume(`ip:${i}`, policy, 1);
+    }
+    await store.consume("ip:recent", policy, 2);
+    await store.consume("ip:new", policy, 3);
+
+    assert.equal((await store.consume("ip:old", policy, 4)).remaining, 1);
+    assert.equal((await store.consume("ip:recent", policy, 4)).allowed, false);
+  });
+});
@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from "next/server";
+import { bytesToHex, utf8ToBytes } from "@/lib/encoding";
+import { sha256 } from "@/lib/sha256";
+
+export interface RateLimitPolicy {
+  /** Bucket size, i.e. the largest burst a client may send. Zero disables. */
+  capacity: number;
+  /** Tokens added back to each bucket per second. */
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again. */
+  resetSeconds: number;
+  /** Seconds until the next token is available, zero when allowed. */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage for token buckets. `consume` must take a token atomically, so a
+ * shared store (e.g. Redis) can implement it as a single script or
+ * transaction.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Buckets kept by the in-memory store before the oldest are evicted. */
+const MAX_MEMORY_BUCKETS = 10000;
+
+/**
+ * Reads the policy from `RATE_LIMIT_CAPACITY` and
+ * `RATE_LIMIT_REFILL_PER_MINUTE`.
+ */
+export function getRateLimitPolicy(): RateLimitPolicy {
+  const capacity = parseInt(process.env.RATE_LIMIT_CAPACITY || "", 10);
+  const refillPerMinute = parseFloat(
+    process.env.RATE_LIMIT_REFILL_PER_MINUTE || ""
+  );
+  return {
+    capacity: Number.isNaN(capacity) ? 20 : Math.max(0, capacity),
+    refillPerSecond:
+      (Number.isNaN(refillPerMinute) || refillPerMinute <= 0
+        ? 10
+        : refillPerMinute) / 60,
+  };
+}
+
+/**
+ * Refills a bucket for the time elapsed since its last update and takes one
+ * token if available.
+ */
+function takeToken(
+  bucket: Bucket,
+  policy: RateLimitPolicy,
+  now: number
+): RateLimitResult {
+  const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(
+    policy.capacity,
+    bucket.tokens + elapsed * policy.refillPerSecond
+  );
+  bucket.updatedAt = now;
+
+  const allowed = bucket.tokens >= 1;
+  if (allowed) bucket.tokens -= 1;
+
+  return {
+    allowed,
+    limit: policy.capacity,
+    remaining: Math.floor(bucket.tokens),
+    resetSeconds: Math.ceil(
+      (policy.capacity - bucket.tokens) / policy.refillPerSecond
+    ),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.ceil((1 - bucket.tokens) / policy.refillPerSecond),
+  };
+}
+
+/**
+ * Creates a token-bucket store that lives in this server process. Limits
+ * are per instance, so deployments with several instances should plug in a
+ * shared store instead.
+ *
+ * @returns The rate limit store.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  // Maps iterate in insertion order, so re-inserting a bucket on every
+  // update keeps them ordered by `updatedAt`, oldest first
+  const buckets = new Map<string, Bucket>();
+
+  return {
+    async consume(key, policy, now) {
+      let bucket = buckets.get(key);
+      if (bucket) {
+        buckets.delete(key);
+      } else {
+        bucket = { tokens: policy.capacity, updatedAt: now };
+        if (buckets.size >= MAX_MEMORY_BUCKETS) {
+          buckets.delete(buckets.keys().next().value as string);
+        }
+      }
+      buckets.set(key, bucket);
+      return takeToken(bucket, policy, now);
+    },
+  };
+}
+
+let rateLimitStore: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replaces the store used by `checkRateLimit`, e.g. with a shared store.
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Hashes an API key, so keys are never kept in memory or used as store keys.
+ */
+function hashApiKey(apiKey: string): string {
+  return bytesToHex(sha256(utf8ToBytes(apiKey))).slice(0, 32);
+}
+
+/**
+ * Reads the hashes of the API keys listed in `RATE_LIMIT_API_KEYS`.
+ */
+function getConfiguredApiKeys(): Set<string> {
+  return new Set(
+    (process.env.RATE_LIMIT_API_KEYS || "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean)
+      .map(hashApiKey)
+  );
+}
+
+/**
+ * Reads `RATE_LIMIT_TRUSTED_PROXIES`, the number of reverse proxies in
+ * front of the server that append to `X-Forwarded-For` (default 1).
+ */
+function getTrustedProxyCount(): number {
+  const count = parseInt(process.env.RATE_LIMIT_TRUSTED_PROXIES || "", 10);
+  return Number.isNaN(count) ? 1 : Math.max(0, count);
+}
+
+/**
+ * Determines the client IP of a request. Every proxy appends the address it
+ * was connected from to `X-Forwarded-For`, and clients can send any value
+ * they like in front of it, so the client is the entry added by the
+ * outermost trusted proxy: the Nth from the right for N trusted proxies.
+ */
+function getClientIp(req: NextRequest): string {
+  const proxies = getTrustedProxyCount();
+  const forwardedFor = (req.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (proxies > 0 && forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - proxies)];
+  }
+  return req.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * Identifies the buckets a request is charged to: always the client IP,
+ * plus the API key (`X-API-Key` or `Authorization: Bearer`) if it is one of
+ * the configured keys. Unknown keys are ignored, so sending a new key on
+ * every request does not buy a fresh bucket.
+ *
+ * @param req - Next.js App Router request object
+ * @returns The bucket keys, the IP bucket first.
+ */
+export function getRateLimitKeys(req: NextRequest): string[] {
+  const keys = [`ip:${getClientIp(req)}`];
+
+  const authorization = req.headers.get("authorization");
+  const apiKey =
+    req.headers.get("x-api-key") ||
+    (authorization?.startsWith("Bearer ") ? authorization.slice(7) : null);
+  if (apiKey) {
+    const hash = hashApiKey(apiKey);
+    if (getConfiguredApiKeys().has(hash)) keys.push(`key:${hash}`);
+  }
+  return keys;
+}
+
+/**
+ * Takes a token from every bucket the request is charged to. The request is
+ * allowed only if all of them have a token, and the most restrictive result
+ * is reported.
+ *
+ * @param req - Next.js App Router request object
+ * @returns The outcome, or null when rate limiting is disabled
+ */
+export async function checkRateLimit(
+  req: NextRequest
+): Promise<RateLimitResult | null> {
+  const policy = getRateLimitPolicy();
+  if (policy.capacity === 0) return null;
+
+  const now = Date.now();
+  let result: RateLimitResult | null = null;
+  for (const key of getRateLimitKeys(req)) {
+    const bucket = await rateLimitStore.consume(key, policy, now);
+    if (!bucket.allowed) return bucket;
+    if (!result || bucket.remaining < result.remaining) result = bucket;
+  }
+  return result;
+}
+
+/**
+ * Builds the `RateLimit-*` headers, plus `Retry-After` when the request was
+ * rejected.
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult | null
+): Record<string, string> {
+  if (!result) return {};
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.resetSeconds),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+/**
+ * Builds the `429` response for a rejected request.
+ */
+export function rateLimitExceededResponse(
+  result: RateLimitResult
+): NextResponse {
+  return NextResponse.json(
+    {
+      message: `Too many requests, please try again in ${result.retryAfterSeconds} seconds`,
+    },
+    { status: 429, headers: getRateLimitHeaders(result) }
+  );
+}
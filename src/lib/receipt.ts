@@ -0,0 +1,142 @@
+import { mixSeedWithLocalEntropy } from "@/lib/entropy-mixing";
+import {
+  generateFromRequest,
+  GenerationRequest,
+  parseGenerationRequest,
+} from "@/lib/generation-request";
+import { GenerationReceipt } from "@/types/receipt";
+import { OrbitportSeedResponse } from "@/types/orbitport";
+
+export const RECEIPT_VERSION = 1;
+/**
+ * Current generation algorithm. Must change whenever the same receipt would
+ * produce different passwords, e.g. a new DRBG, child seed derivation or
+ * character selection.
+ */
+export const GENERATOR_ALGORITHM = "cosmic-cipher/hkdf-mix/hmac-drbg-sha256/v1";
+
+/**
+ * Creates the receipt of a generation.
+ *
+ * @param request - The generation request.
+ * @param seed - The seed as delivered by the entropy source.
+ * @param localEntropy - Local entropy mixed into the seed, if any.
+ * @param passwords - The generated passwords, only if they should be stored.
+ * @returns The receipt.
+ */
+export function createReceipt(
+  request: GenerationRequest,
+  seed: OrbitportSeedResponse,
+  localEntropy: string | null,
+  passwords?: string[]
+): GenerationReceipt {
+  return {
+    version: RECEIPT_VERSION,
+    algorithm: GENERATOR_ALGORITHM,
+    createdAt: new Date().toISOString(),
+    request,
+    seed: {
+      service: seed.service,
+      src: seed.src,
+      data: seed.data,
+      signature: seed.signature,
+    },
+    localEntropy,
+    ...(passwords && { passwords }),
+  };
+}
+
+/**
+ * Checks that an untrusted value has the shape of a seed response, so its
+ * signature can be verified.
+ */
+export function isSeedResponse(seed: unknown): seed is OrbitportSeedResponse {
+  const candidate = seed as OrbitportSeedResponse | null;
+  const signature = candidate?.signature;
+  return (
+    typeof candidate === "object" &&
+    candidate !== null &&
+    typeof candidate.data === "string" &&
+    typeof signature === "object" &&
+    signature !== null &&
+    typeof signature.value === "string" &&
+    typeof signature.pk === "string" &&
+    typeof signature.algo === "string"
+  );
+}
+
+/**
+ * Parses and validates an untrusted receipt.
+ *
+ * @param body - The parsed receipt JSON.
+ * @returns The validated receipt.
+ * @throws Error describing why the receipt is invalid.
+ */
+export function parseReceipt(body: unknown): GenerationReceipt {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("Receipt must be a JSON object");
+  }
+  const receipt = body as Record<string, unknown>;
+
+  if (receipt.version !== RECEIPT_VERSION) {
+    throw new Error(`Unsupported receipt version: ${receipt.version}`);
+  }
+  if (receipt.algorithm !== GENERATOR_ALGORITHM) {
+    throw new Error(`Unsupported generator algorithm: ${receipt.algorithm}`);
+  }
+  if (typeof receipt.createdAt !== "string") {
+    throw new Error("Receipt createdAt must be a string");
+  }
+
+  const seed = receipt.seed;
+  if (!isSeedResponse(seed)) {
+    throw new Error("Receipt seed is missing or malformed");
+  }
+  if (
+    receipt.localEntropy !== null &&
+    typeof receipt.localEntropy !== "string"
+  ) {
+    throw new Error("Receipt localEntropy must be a hex string or null");
+  }
+
+  const request = receipt.request as GenerationRequest | undefined;
+  if (typeof request !== "object" || request === null) {
+    throw new Error("Receipt request is missing");
+  }
+
+  return {
+    version: RECEIPT_VERSION,
+    algorithm: GENERATOR_ALGORITHM,
+    createdAt: receipt.createdAt,
+    // Flattened into the API request format, which validates every parameter.
+    // Only the parameters of the receipt's mode are kept, as modes share
+    // option names such as length.
+    request: parseGenerationRequest({
+      mode: request.mode,
+      count: request.count,
+      ...request[request.mode],
+    }),
+    seed,
+    localEntropy: receipt.localEntropy,
+  };
+}
+
+/**
+ * Re-runs the generation recorded in a receipt and looks for a password.
+ *
+ * @param receipt - The validated receipt.
+ * @param password - The password to look for.
+ * @returns The batch index of the password, or null if the receipt does not
+ * produce it.
+ */
+export function findPasswordInReceipt(
+  receipt: GenerationReceipt,
+  password: string
+): number | null {
+  const seed = receipt.localEntropy
+    ? mixSeedWithLocalEntropy(receipt.seed.data, receipt.localEntropy).data
+    : receipt.seed.data;
+  const { passwords } = generateFromRequest(seed, receipt.request);
+  const index = passwords.indexOf(password);
+  return index === -1 ? null : index;
+}
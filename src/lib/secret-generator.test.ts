@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateSecretFromSeed, SecretFormat } from "@/lib/secret-generator";
+
+const SEED = "5eed".repeat(16);
+// ULID specification example: 2016-07-30T22:36:16.385Z
+const TIMESTAMP = 1469918176385;
+
+/**
+ * Generates a 16-byte secret in a format from the fixed test seed.
+ */
+function generate(format: SecretFormat, seed = SEED): string {
+  return generateSecretFromSeed(seed, {
+    format,
+    bytes: 16,
+    timestamp: TIMESTAMP,
+  });
+}
+
+describe("generateSecretFromSeed", () => {
+  // Every format encodes the same first bytes of the seeded DRBG. The
+  // expected encodings were checked independently with Python's base64
+  // module and a plain big-integer base58 conversion.
+  const vectors: [SecretFormat, string][] = [
+    ["hex", "bd910b9cba4d6457debb1e90072e97ac"],
+    ["base64", "vZELnLpNZFfeux6QBy6XrA=="],
+    ["base64url", "vZELnLpNZFfeux6QBy6XrA"],
+    ["base32", "XWIQXHF2JVSFPXV3D2IAOLUXVQ"],
+    ["base58", "QQhAHC7AHM8NyhV9tHVLSP"],
+    ["uuid", "bd910b9c-ba4d-4457-9ebb-1e90072e97ac"],
+    ["ulid", "01ARYZ6S41QP8GQ75T9NJ5FQNV"],
+  ];
+
+  for (const [format, expected] of vectors) {
+    it(`produces the known ${format} output`, () => {
+      assert.equal(generate(format), expected);
+    });
+  }
+
+  it("sets the UUID version and variant bits", () => {
+    for (let i = 0; i < 64; i++) {
+      const seed = i.toString(16).padStart(2, "0").repeat(32);
+      assert.match(
+        generate("uuid", seed),
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+    }
+  });
+
+  it("lays out a ULID as timestamp then randomness", () => {
+    const ulid = generate("ulid");
+    assert.equal(ulid.length, 26);
+    assert.equal(ulid.slice(0, 10), "01ARYZ6S41");
+    assert.match(ulid, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    // The random part is the first 10 DRBG bytes in Crockford base32
+    const hex = generate("hex").slice(0, 20);
+    const random = BigInt(`0x${hex}`);
+    const alphabet = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+    const encoded = Array.from(
+      { length: 16 },
+      (_, i) => alphabet[Number((random >> BigInt(5 * (15 - i))) & BigInt(31))]
+    ).join("");
+    assert.equal(ulid.slice(10), encoded);
+  });
+
+  it("encodes the largest ULID timestamp", () => {
+    const ulid = generateSecretFromSeed(SEED, {
+      format: "ulid",
+      bytes: 16,
+      timestamp: 2 ** 48 - 1,
+    });
+    assert.equal(ulid.slice(0, 10), "7ZZZZZZZZZ");
+  });
+});
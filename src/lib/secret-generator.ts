@@ -0,0 +1,182 @@
+import {
+  bytesToBase32,
+  bytesToBase58,
+  bytesToBase64,
+  bytesToBase64Url,
+  bytesToHex,
+  CROCKFORD_BASE32_ALPHABET,
+} from "@/lib/encoding";
+import { createRandomGenerator } from "@/lib/random";
+
+export type SecretFormat =
+  "hex" | "base64" | "base64url" | "base32" | "base58" | "uuid" | "ulid";
+
+export interface SecretParams {
+  format: SecretFormat;
+  /** Random bytes to encode. Ignored by UUIDs and ULIDs. */
+  bytes: number;
+  /**
+   * Milliseconds since the epoch that a ULID embeds. Recorded in the
+   * request so the ULID can be reproduced from a receipt.
+   */
+  timestamp?: number;
+}
+
+export const SECRET_FORMATS: SecretFormat[] = [
+  "hex",
+  "base64",
+  "base64url",
+  "base32",
+  "base58",
+  "uuid",
+  "ulid",
+];
+export const MIN_SECRET_BYTES = 16;
+export const MAX_SECRET_BYTES = 256;
+
+/** Domain separation string for the DRBG used by the secret generator. */
+const DRBG_PERSONALIZATION = "cosmic-cipher/secret";
+/** Random bits of a UUIDv4; 6 of its 128 bits are fixed. */
+const UUID_RANDOM_BITS = 122;
+const ULID_RANDOM_BYTES = 10;
+const ULID_TIME_CHARS = 10;
+const MAX_ULID_TIMESTAMP = 2 ** 48 - 1;
+
+const BYTE_ENCODERS: Partial<
+  Record<SecretFormat, (bytes: Uint8Array) => string>
+> = {
+  hex: bytesToHex,
+  base64: bytesToBase64,
+  base64url: bytesToBase64Url,
+  base32: (bytes) => bytesToBase32(bytes),
+  base58: bytesToBase58,
+};
+
+/**
+ * Checks whether a format encodes raw bytes, as opposed to an ID format.
+ */
+export function isByteFormat(format: SecretFormat): boolean {
+  return format in BYTE_ENCODERS;
+}
+
+/**
+ * Validates secret parameters.
+ * @throws Error describing the first invalid parameter.
+ */
+export function validateSecretParams(params: SecretParams): void {
+  const { format, bytes, timestamp } = params;
+  if (!SECRET_FORMATS.includes(format)) {
+    throw new Error(
+      `Secret format must be one of ${SECRET_FORMATS.join(", ")}`
+    );
+  }
+  if (
+    isByteFormat(format) &&
+    (!Number.isInteger(bytes) ||
+      bytes < MIN_SECRET_BYTES ||
+      bytes > MAX_SECRET_BYTES)
+  ) {
+    throw new Error(
+      `Secret size must be between ${MIN_SECRET_BYTES} and ${MAX_SECRET_BYTES} bytes`
+    );
+  }
+  if (
+    timestamp !== undefined &&
+    (!Number.isInteger(timestamp) ||
+      timestamp < 0 ||
+      timestamp > MAX_ULID_TIMESTAMP)
+  ) {
+    throw new Error("ULID timestamp must be a 48-bit millisecond count");
+  }
+}
+
+/**
+ * Adds the current time to ULID parameters, which must happen once when a
+ * request is created rather than at generation time.
+ *
+ * @param params - The secret parameters.
+ * @param now - The time to embed, in milliseconds since the epoch.
+ * @returns The parameters, with a timestamp for ULIDs that lack one.
+ */
+export function stampSecretParams(
+  params: SecretParams,
+  now: number = Date.now()
+): SecretParams {
+  return params.format === "ulid" && params.timestamp === undefined
+    ? { ...params, timestamp: now }
+    : params;
+}
+
+/**
+ * Formats 16 random bytes as a version 4, variant 1 UUID (RFC 9562).
+ */
+function formatUuid(bytes: Uint8Array): string {
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytesToHex(bytes);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
+
+/**
+ * Formats a ULID: 10 Crockford base32 characters of timestamp followed by
+ * 16 characters of randomness.
+ */
+function formatUlid(timestamp: number, random: Uint8Array): string {
+  let time = "";
+  let rest = timestamp;
+  for (let i = 0; i < ULID_TIME_CHARS; i++) {
+    time = CROCKFORD_BASE32_ALPHABET[rest % 32] + time;
+    rest = Math.floor(rest / 32);
+  }
+  return time + bytesToBase32(random, CROCKFORD_BASE32_ALPHABET);
+}
+
+/**
+ * Generates a secret or ID from a seed. Byte formats encode `bytes` bytes
+ * straight from the seeded DRBG; UUIDs and ULIDs take their random part
+ * from it.
+ *
+ * @throws Error if the parameters are invalid, or a ULID has no timestamp.
+ */
+export function generateSecretFromSeed(
+  seed: string,
+  params: SecretParams
+): string {
+  validateSecretParams(params);
+  const randomValues = createRandomGenerator(seed, DRBG_PERSONALIZATION);
+  const { format, bytes, timestamp } = params;
+
+  if (format === "uuid") return formatUuid(randomValues(16));
+  if (format === "ulid") {
+    if (timestamp === undefined) {
+      throw new Error("ULID timestamp is missing");
+    }
+    return formatUlid(timestamp, randomValues(ULID_RANDOM_BYTES));
+  }
+  return BYTE_ENCODERS[format]!(randomValues(bytes));
+}
+
+/**
+ * Computes the entropy of a secret. The ULID timestamp is not counted, as
+ * it is guessable.
+ *
+ * @returns The entropy in bits.
+ * @throws Error if the parameters are invalid.
+ */
+export function estimateSecretEntropy(params: SecretParams): number {
+  validateSecretParams(params);
+  switch (params.format) {
+    case "uuid":
+      return UUID_RANDOM_BITS;
+    case "ulid":
+      return ULID_RANDOM_BYTES * 8;
+    default:
+      return params.bytes * 8;
+  }
+}
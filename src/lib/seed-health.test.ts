@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { bytesToHex, utf8ToBytes } from "@/lib/encoding";
+import { checkSeedHealth, SeedHealthResult } from "@/lib/seed-health";
+import { sha256 } from "@/lib/sha256";
+
+/** A fixed, random-looking 32-byte seed. */
+const SEED = bytesToHex(sha256(utf8ToBytes("cosmic-cipher/seed-health")));
+
+/** Repetition count cutoff for the assumed 4 bits of min-entropy per byte. */
+const RCT_CUTOFF = 6;
+
+function reason(result: SeedHealthResult): string | null {
+  return result.passed ? null : result.reason;
+}
+
+/**
+ * Builds a 64-byte seed whose first byte, 0xaa, occurs `count` times at
+ * every other position, with distinct filler bytes in between.
+ */
+function seedWithRepeats(count: number): string {
+  return bytesToHex(
+    Uint8Array.from({ length: 64 }, (_, i) =>
+      i % 2 === 0 && i / 2 < count ? 0xaa : i
+    )
+  );
+}
+
+describe("checkSeedHealth", () => {
+  it("passes a random 32-byte seed", () => {
+    assert.deepEqual(checkSeedHealth(SEED), { passed: true });
+    assert.deepEqual(checkSeedHealth(SEED.toUpperCase()), { passed: true });
+  });
+
+  it("rejects invalid hex", () => {
+    for (const data of ["abc", "zz".repeat(32), `0x${SEED}`]) {
+      assert.equal(reason(checkSeedHealth(data)), "invalid-hex", data);
+    }
+  });
+
+  it("rejects seeds shorter than the DRBG needs", () => {
+    assert.equal(reason(checkSeedHealth(SEED.slice(0, 30))), "too-short");
+    assert.equal(reason(checkSeedHealth("")), "too-short");
+  });
+
+  it("rejects all-zero seeds", () => {
+    assert.equal(reason(checkSeedHealth("00".repeat(32))), "all-zero");
+  });
+
+  it("rejects a seed identical to the previous one", () => {
+    assert.equal(
+      reason(checkSeedHealth(SEED, SEED.toUpperCase())),
+      "repeated-seed"
+    );
+    assert.deepEqual(checkSeedHealth(SEED, "ff".repeat(32)), { passed: true });
+  });
+
+  it(`rejects a byte repeated ${RCT_CUTOFF} times in a row`, () => {
+    const run = (length: number) =>
+      SEED.slice(0, 20) + "ab".repeat(length) + SEED.slice(20 + 2 * length);
+    assert.equal(reason(checkSeedHealth(run(RCT_CUTOFF))), "repetition-count");
+    assert.deepEqual(checkSeedHealth(run(RCT_CUTOFF - 1)), { passed: true });
+  });
+
+  it("rejects a window where the first byte occurs too often", () => {
+    // Cutoff for a 64-byte window at 4 bits of min-entropy and 2^-20
+    assert.equal(
+      reason(checkSeedHealth(seedWithRepeats(18))),
+      "adaptive-proportion"
+    );
+    assert.deepEqual(checkSeedHealth(seedWithRepeats(17)), { passed: true });
+  });
+});
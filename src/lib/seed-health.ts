@@ -0,0 +1,162 @@
+import { DRBG_MIN_ENTROPY_BYTES } from "@/lib/drbg";
+import { hexToBytes } from "@/lib/encoding";
+
+export type SeedHealthFailure =
+  | "invalid-hex"
+  | "too-short"
+  | "all-zero"
+  | "repeated-seed"
+  | "repetition-count"
+  | "adaptive-proportion";
+
+export type SeedHealthResult =
+  | { passed: true }
+  | { passed: false; reason: SeedHealthFailure; message: string };
+
+/**
+ * Min-entropy per byte the health tests assume. Well below the 8 bits a
+ * full-entropy source delivers, so only grossly broken seeds are rejected.
+ */
+const ASSUMED_MIN_ENTROPY = 4;
+/** False positive probability per test, as recommended by SP 800-90B. */
+const FALSE_POSITIVE_LOG2 = -20;
+/** Window size of the adaptive proportion test for non-binary samples. */
+const APT_WINDOW = 512;
+
+/**
+ * Cutoff of the repetition count test (SP 800-90B 4.4.1): the number of
+ * identical consecutive samples that is practically impossible for a source
+ * with the assumed min-entropy.
+ */
+const RCT_CUTOFF = 1 + Math.ceil(-FALSE_POSITIVE_LOG2 / ASSUMED_MIN_ENTROPY);
+
+const aptCutoffs = new Map<number, number>();
+
+/**
+ * Cutoff of the adaptive proportion test (SP 800-90B 4.4.2) for a window of
+ * the given size: the smallest count of the window's first sample that a
+ * source with the assumed min-entropy reaches with probability at most
+ * 2^-20.
+ */
+function getAptCutoff(window: number): number {
+  const cached = aptCutoffs.get(window);
+  if (cached !== undefined) return cached;
+
+  // The first sample always counts; the other window - 1 samples match it
+  // with probability p each
+  const p = 2 ** -ASSUMED_MIN_ENTROPY;
+  const trials = window - 1;
+  const pmf: number[] = [];
+  let probability = (1 - p) ** trials;
+  for (let k = 0; k <= trials; k++) {
+    pmf[k] = probability;
+    probability *= ((trials - k) / (k + 1)) * (p / (1 - p));
+  }
+
+  let tail = 0;
+  let cutoff = window + 1;
+  for (let k = trials; k >= 0; k--) {
+    tail += pmf[k];
+    if (tail > 2 ** FALSE_POSITIVE_LOG2) break;
+    cutoff = k + 1;
+  }
+
+  aptCutoffs.set(window, cutoff);
+  return cutoff;
+}
+
+/**
+ * Repetition count test: fails when one byte value repeats too many times in
+ * a row.
+ */
+function passesRepetitionCountTest(bytes: Uint8Array): boolean {
+  let run = 1;
+  for (let i = 1; i < bytes.length; i++) {
+    run = bytes[i] === bytes[i - 1] ? run + 1 : 1;
+    if (run >= RCT_CUTOFF) return false;
+  }
+  return true;
+}
+
+/**
+ * Adaptive proportion test: fails when the first byte of a window occurs too
+ * often within that window.
+ */
+function passesAdaptiveProportionTest(bytes: Uint8Array): boolean {
+  for (let start = 0; start < bytes.length; start += APT_WINDOW) {
+    const window = bytes.subarray(start, start + APT_WINDOW);
+    // Windows too short for a meaningful cutoff are left to the other tests
+    const cutoff = getAptCutoff(window.length);
+    if (cutoff > window.length) continue;
+
+    let count = 0;
+    for (const byte of window) {
+      if (byte === window[0]) count++;
+    }
+    if (count >= cutoff) return false;
+  }
+  return true;
+}
+
+/**
+ * Runs the sanity checks and SP 800-90B style online health tests on a seed.
+ *
+ * @param data - The seed as hex.
+ * @param previous - The previous seed from the same source, if any.
+ * @returns Whether the seed passed, and why it failed otherwise.
+ */
+export function checkSeedHealth(
+  data: string,
+  previous?: string
+): SeedHealthResult {
+  if (
+    typeof data !== "string" ||
+    data.length % 2 !== 0 ||
+    !/^[0-9a-fA-F]*$/.test(data)
+  ) {
+    return {
+      passed: false,
+      reason: "invalid-hex",
+      message: "Seed is not a valid hex string",
+    };
+  }
+
+  const bytes = hexToBytes(data);
+
+  if (bytes.length < DRBG_MIN_ENTROPY_BYTES) {
+    return {
+      passed: false,
+      reason: "too-short",
+      message: `Seed has ${bytes.length} bytes, at least ${DRBG_MIN_ENTROPY_BYTES} are required`,
+    };
+  }
+  if (bytes.every((byte) => byte === 0)) {
+    return {
+      passed: false,
+      reason: "all-zero",
+      message: "Seed is all zeros",
+    };
+  }
+  if (previous !== undefined && data.toLowerCase() === previous.toLowerCase()) {
+    return {
+      passed: false,
+      reason: "repeated-seed",
+      message: "Seed is identical to the previous seed",
+    };
+  }
+  if (!passesRepetitionCountTest(bytes)) {
+    return {
+      passed: false,
+      reason: "repetition-count",
+      message: `Seed repeats a byte ${RCT_CUTOFF} or more times in a row`,
+    };
+  }
+  if (!passesAdaptiveProportionTest(bytes)) {
+    return {
+      passed: false,
+      reason: "adaptive-proportion",
+      message: "Seed contains one byte value far too often",
+    };
+  }
+  return { passed: true };
+}
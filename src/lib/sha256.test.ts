@@ -0,0 +1,142 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@/lib/encoding";
+import { hkdfSha256, hmacSha256, sha256 } from "@/lib/sha256";
+
+describe("sha256", () => {
+  // FIPS 180-4 examples and the NIST boundary cases
+  const vectors: [string, string][] = [
+    ["", "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"],
+    ["abc", "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"],
+    [
+      "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+    ],
+    [
+      "abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu",
+      "cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1",
+    ],
+  ];
+
+  for (const [message, digest] of vectors) {
+    it(`hashes "${message.slice(0, 16)}" (${message.length} bytes)`, () => {
+      assert.equal(bytesToHex(sha256(utf8ToBytes(message))), digest);
+    });
+  }
+
+  it("hashes one million repetitions of 'a'", () => {
+    assert.equal(
+      bytesToHex(sha256(new Uint8Array(1000000).fill(0x61))),
+      "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0"
+    );
+  });
+});
+
+describe("hmacSha256", () => {
+  // RFC 4231 test cases 1-7
+  const vectors: { key: string; data: string; mac: string }[] = [
+    {
+      key: "0b".repeat(20),
+      data: bytesToHex(utf8ToBytes("Hi There")),
+      mac: "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7",
+    },
+    {
+      key: bytesToHex(utf8ToBytes("Jefe")),
+      data: bytesToHex(utf8ToBytes("what do ya want for nothing?")),
+      mac: "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    },
+    {
+      key: "aa".repeat(20),
+      data: "dd".repeat(50),
+      mac: "773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe",
+    },
+    {
+      key: "0102030405060708090a0b0c0d0e0f10111213141516171819",
+      data: "cd".repeat(50),
+      mac: "82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b",
+    },
+    {
+      key: "0c".repeat(20),
+      data: bytesToHex(utf8ToBytes("Test With Truncation")),
+      // The RFC only gives the first 128 bits
+      mac: "a3b6167473100ee06e0c796c2955552b",
+    },
+    {
+      key: "aa".repeat(131),
+      data: bytesToHex(
+        utf8ToBytes("Test Using Larger Than Block-Size Key - Hash Key First")
+      ),
+      mac: "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+    },
+    {
+      key: "aa".repeat(131),
+      data: bytesToHex(
+        utf8ToBytes(
+          "This is a test using a larger than block-size key and a larger than block-size data. The key needs to be hashed before being used by the HMAC algorithm."
+        )
+      ),
+      mac: "9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2",
+    },
+  ];
+
+  vectors.forEach(({ key, data, mac }, index) => {
+    it(`matches RFC 4231 test case ${index + 1}`, () => {
+      const digest = bytesToHex(hmacSha256(hexToBytes(key), hexToBytes(data)));
+      assert.equal(digest.slice(0, mac.length), mac);
+    });
+  });
+});
+
+describe("hkdfSha256", () => {
+  // RFC 5869 test cases 1-3 (SHA-256)
+  const vectors: { ikm: string; salt: string; info: string; okm: string }[] = [
+    {
+      ikm: "0b".repeat(22),
+      salt: "000102030405060708090a0b0c",
+      info: "f0f1f2f3f4f5f6f7f8f9",
+      okm: "3cb25f25faacd57a90434f64d0362f2a2d2d0a90cf1a5a4c5db02d56ecc4c5bf34007208d5b887185865",
+    },
+    {
+      ikm: range(0x00, 0x4f),
+      salt: range(0x60, 0xaf),
+      info: range(0xb0, 0xff),
+      okm:
+        "b11e398dc80327a1c8e7f78c596a49344f012eda2d4efad8a050cc4c19afa97c" +
+        "59045a99cac7827271cb41c65e590e09da3275600c2f09b8367793a9aca3db71" +
+        "cc30c58179ec3e87c14c01d5c1f3434f1d87",
+    },
+    {
+      ikm: "0b".repeat(22),
+      salt: "",
+      info: "",
+      okm: "8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8",
+    },
+  ];
+
+  vectors.forEach(({ ikm, salt, info, okm }, index) => {
+    it(`matches RFC 5869 test case ${index + 1}`, () => {
+      const output = hkdfSha256(
+        hexToBytes(ikm),
+        hexToBytes(salt),
+        hexToBytes(info),
+        okm.length / 2
+      );
+      assert.equal(bytesToHex(output), okm);
+    });
+  });
+
+  it("rejects outputs longer than 255 blocks", () => {
+    assert.throws(() =>
+      hkdfSha256(new Uint8Array(32), new Uint8Array(0), new Uint8Array(0), 8161)
+    );
+  });
+});
+
+/**
+ * Returns the bytes from `first` to `last` inclusive as hex.
+ */
+function range(first: number, last: number): string {
+  return bytesToHex(
+    Uint8Array.from({ length: last - first + 1 }, (_, i) => first + i)
+  );
+}
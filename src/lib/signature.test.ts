@@ -0,0 +1,163 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { verifySeedSignature } from "@/lib/signature";
+import { OrbitportSeedResponse } from "@/types/orbitport";
+
+const DATA = "5eed".repeat(16);
+
+type Curve = "ed25519" | "secp256k1" | "prime256v1";
+
+interface TestKey {
+  privateKey: crypto.KeyObject;
+  /** Raw public keys in every encoding the curve supports, as hex. */
+  publicKeys: string[];
+}
+
+/**
+ * Generates a key pair and encodes its public key the way a cTRNG response
+ * advertises it: raw bytes, compressed and uncompressed for ECDSA curves.
+ */
+function generateKey(curve: Curve): TestKey {
+  if (curve === "ed25519") {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+    const spki = publicKey.export({ format: "der", type: "spki" });
+    return { privateKey, publicKeys: [spki.subarray(-32).toString("hex")] };
+  }
+  const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", {
+    namedCurve: curve,
+  });
+  const jwk = publicKey.export({ format: "jwk" });
+  const x = Buffer.from(jwk.x!, "base64url").toString("hex");
+  const y = Buffer.from(jwk.y!, "base64url");
+  const parity = y[y.length - 1] & 1 ? "03" : "02";
+  return {
+    privateKey,
+    publicKeys: [`04${x}${y.toString("hex")}`, `${parity}${x}`],
+  };
+}
+
+/**
+ * Signs the hex-decoded seed data with a key.
+ */
+function sign(
+  key: TestKey,
+  curve: Curve,
+  encoding: "der" | "ieee-p1363" = "der"
+): string {
+  const message = Buffer.from(DATA, "hex");
+  const signature =
+    curve === "ed25519"
+      ? crypto.sign(null, message, key.privateKey)
+      : crypto.sign("sha256", message, {
+          key: key.privateKey,
+          dsaEncoding: encoding,
+        });
+  return signature.toString("hex");
+}
+
+function seed(value: string, pk: string, algo: string): OrbitportSeedResponse {
+  return {
+    service: "trng",
+    src: "test",
+    data: DATA,
+    signature: { value, pk, algo },
+  };
+}
+
+describe("verifySeedSignature", () => {
+  const cases: [Curve, string][] = [
+    ["ed25519", "ed25519"],
+    ["secp256k1", "secp256k1"],
+    ["prime256v1", "p256"],
+  ];
+
+  for (const [curve, algo] of cases) {
+    const key = generateKey(curve);
+    const encodings: ("der" | "ieee-p1363")[] =
+      curve === "ed25519" ? ["der"] : ["der", "ieee-p1363"];
+
+    for (const pk of key.publicKeys) {
+      for (const encoding of encodings) {
+        const label = `${algo}, ${pk.length / 2}-byte key${
+          curve === "ed25519" ? "" : `, ${encoding} signature`
+        }`;
+
+        it(`verifies ${label} against a pinned key`, () => {
+          const result = verifySeedSignature(
+            seed(sign(key, curve, encoding), pk, algo),
+            new Set([pk])
+          );
+          assert.equal(result.status, "verified");
+          assert.equal(result.algo, algo);
+          assert.match(result.fingerprint!, /^([0-9a-f]{2}:){15}[0-9a-f]{2}$/);
+        });
+      }
+    }
+  }
+
+  const key = generateKey("secp256k1");
+  const [pk] = key.publicKeys;
+  const signature = sign(key, "secp256k1");
+
+  it("reports valid signatures as unpinned without pinned keys", () => {
+    const result = verifySeedSignature(
+      seed(signature, pk, "secp256k1"),
+      new Set()
+    );
+    assert.equal(result.status, "unpinned");
+  });
+
+  it("reports valid signatures by other keys as untrusted", () => {
+    const other = generateKey("secp256k1").publicKeys[0];
+    const result = verifySeedSignature(
+      seed(signature, pk, "secp256k1"),
+      new Set([other])
+    );
+    assert.equal(result.status, "untrusted");
+  });
+
+  it("reports signatures over other data as invalid", () => {
+    const tampered = {
+      ...seed(signature, pk, "secp256k1"),
+      data: "00".repeat(32),
+    };
+    assert.equal(
+      verifySeedSignature(tampered, new Set([pk])).status,
+      "invalid"
+    );
+  });
+
+  it("reports signatures for the wrong curve as invalid", () => {
+    assert.equal(
+      verifySeedSignature(seed(signature, pk, "p256"), new Set([pk])).status,
+      "invalid"
+    );
+  });
+
+  it("reports unknown algorithms as unsupported", () => {
+    assert.equal(
+      verifySeedSignature(seed(signature, pk, "rsa"), new Set([pk])).status,
+      "unsupported"
+    );
+  });
+
+  it("reports seeds without a signature or key as unsigned", () => {
+    assert.equal(
+      verifySeedSignature(seed("", "", "none"), new Set()).status,
+      "unsigned"
+    );
+    assert.equal(
+      verifySeedSignature(seed(signature, "", "secp256k1"), new Set()).status,
+      "unsigned"
+    );
+  });
+
+  it("treats non-string signature fields as missing", () => {
+    const malformed = {
+      ...seed(signature, pk, "secp256k1"),
+      signature: { value: 1, pk, algo: 2 },
+    } as unknown as OrbitportSeedResponse;
+    assert.equal(verifySeedSignature(malformed, new Set()).status, "unsigned");
+  });
+});
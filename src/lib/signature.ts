@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import {
+  OrbitportSeedResponse,
+  SignatureVerification,
+} from "@/types/orbitport";
+
+type CurveName = "ed25519" | "secp256k1" | "p256";
+
+/**
+ * DER prefixes that wrap a raw public key into a SubjectPublicKeyInfo
+ * structure, keyed by curve and raw key length.
+ */
+const SPKI_PREFIXES: Record<CurveName, Record<number, string>> = {
+  ed25519: {
+    32: "302a300506032b6570032100",
+  },
+  secp256k1: {
+    33: "3036301006072a8648ce3d020106052b8104000a032200",
+    65: "3056301006072a8648ce3d020106052b8104000a034200",
+  },
+  p256: {
+    33: "3039301306072a8648ce3d020106082a8648ce3d030107032200",
+    65: "3059301306072a8648ce3d020106082a8648ce3d030107034200",
+  },
+};
+
+/**
+ * Maps the algorithm names the cTRNG service may advertise onto curves.
+ */
+const ALGORITHMS: Record<string, CurveName> = {
+  ed25519: "ed25519",
+  eddsa: "ed25519",
+  ecdsa: "secp256k1",
+  secp256k1: "secp256k1",
+  "ecdsa-secp256k1": "secp256k1",
+  es256k: "secp256k1",
+  p256: "p256",
+  "p-256": "p256",
+  secp256r1: "p256",
+  "ecdsa-p256": "p256",
+  es256: "p256",
+};
+
+/**
+ * Decodes a hex or base64 encoded string into bytes.
+ *
+ * @param value - The encoded string, as found in an untrusted response.
+ * @returns The decoded bytes, or null if the value is empty, not a string or
+ * malformed.
+ */
+function decodeBytes(value: unknown): Buffer | null {
+  if (typeof value !== "string" || !value) return null;
+  const trimmed = value.trim().replace(/^0x/i, "");
+  if (/^[0-9a-fA-F]+$/.test(trimmed) && trimmed.length % 2 === 0) {
+    return Buffer.from(trimmed, "hex");
+  }
+  if (/^[A-Za-z0-9+/_-]+={0,2}$/.test(trimmed)) {
+    const bytes = Buffer.from(trimmed, "base64");
+    return bytes.length > 0 ? bytes : null;
+  }
+  return null;
+}
+
+/**
+ * Reads the pinned Orbitport public keys from `ORBITPORT_TRUSTED_KEYS`.
+ * Keys are comma separated and may be hex or base64 encoded.
+ *
+ * @returns The set of pinned keys as lowercase hex strings.
+ */
+export function getTrustedKeys(): Set<string> {
+  const keys = new Set<string>();
+  for (const entry of (process.env.ORBITPORT_TRUSTED_KEYS || "").split(",")) {
+    const bytes = decodeBytes(entry);
+    if (bytes) keys.add(bytes.toString("hex"));
+  }
+  return keys;
+}
+
+/**
+ * Computes a short, human comparable fingerprint of a public key.
+ *
+ * @param publicKey - The raw public key bytes.
+ * @returns The first 16 bytes of the SHA-256 digest as colon separated hex.
+ */
+export function fingerprintKey(publicKey: Buffer): string {
+  const digest = crypto.createHash("sha256").update(publicKey).digest("hex");
+  return digest.slice(0, 32).match(/.{2}/g)!.join(":");
+}
+
+/**
+ * Verifies a raw signature over a message with the given curve.
+ * ECDSA signatures are accepted both in DER and raw (r || s) encoding.
+ */
+function verifyRaw(
+  curve: CurveName,
+  message: Buffer,
+  publicKey: Buffer,
+  signature: Buffer
+): boolean {
+  const prefix = SPKI_PREFIXES[curve][publicKey.length];
+  if (!prefix) return false;
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([Buffer.from(prefix, "hex"), publicKey]),
+      format: "der",
+      type: "spki",
+    });
+    if (curve === "ed25519") {
+      return crypto.verify(null, message, key, signature);
+    }
+    return crypto.verify(
+      "sha256",
+      message,
+      {
+        key,
+        dsaEncoding: signature.length === 64 ? "ieee-p1363" : "der",
+      },
+      signature
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies the signature attached to a cTRNG seed. The signature covers the
+ * raw seed bytes (the hex-decoded `data` field).
+ *
+ * A valid signature made by a key outside the pinned set is reported as
+ * `untrusted`. When no keys are pinned, valid signatures are reported as
+ * `unpinned` since any key the response advertises would be accepted (see
+ * `isAcceptedSignature`).
+ *
+ * @param seed - The seed response returned by Orbitport.
+ * @param trustedKeys - Pinned public keys as lowercase hex strings.
+ * @returns The verification result including the signing key fingerprint.
+ */
+export function verifySeedSignature(
+  seed: OrbitportSeedResponse,
+  trustedKeys: Set<string> = getTrustedKeys()
+): SignatureVerification {
+  const algo =
+    typeof seed.signature?.algo === "string" ? seed.signature.algo : "";
+  const publicKey = decodeBytes(seed.signature?.pk);
+  const fingerprint = publicKey ? fingerprintKey(publicKey) : null;
+
+  const signature = decodeBytes(seed.signature?.value);
+  if (!signature || !publicKey) {
+    return { status: "unsigned", algo, fingerprint };
+  }
+
+  const curve = ALGORITHMS[algo.toLowerCase()];
+  if (!curve) {
+    return { status: "unsupported", algo, fingerprint };
+  }
+
+  const message = decodeBytes(seed.data);
+  if (!message || !verifyRaw(curve, message, publicKey, signature)) {
+    return { status: "invalid", algo, fingerprint };
+  }
+
+  if (trustedKeys.size === 0) {
+    return { status: "unpinned", algo, fingerprint };
+  }
+  if (!trustedKeys.has(publicKey.toString("hex"))) {
+    return { status: "untrusted", algo, fingerprint };
+  }
+  return { status: "verified", algo, fingerprint };
+}
+
+/**
+ * Reads `ORBITPORT_ALLOW_UNPINNED`, the explicit opt-in to accept validly
+ * signed seeds while no keys are pinned.
+ */
+export function allowsUnpinnedKeys(): boolean {
+  return process.env.ORBITPORT_ALLOW_UNPINNED === "true";
+}
+
+/**
+ * Whether a verification result is acceptable for generating passwords.
+ *
+ * Without pinned keys a valid signature only proves that the response is
+ * consistent with the key it advertises itself, so `unpinned` seeds are
+ * rejected unless explicitly allowed.
+ *
+ * @param verification - The verification result.
+ * @param allowUnpinned - Whether to accept `unpinned` seeds.
+ */
+export function isAcceptedSignature(
+  verification: SignatureVerification,
+  allowUnpinned: boolean = allowsUnpinnedKeys()
+) {
+  return (
+    verification.status === "verified" ||
+    (allowUnpinned && verification.status === "unpinned")
+  );
+}
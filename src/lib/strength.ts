@@ -0,0 +1,184 @@
+import {
+  CharsetSelection,
+  estimateRuleAcceptance,
+  GenerateParams,
+  validateGenerateParams,
+} from "@/lib/password-generator";
+
+export interface AttackerModel {
+  name: string;
+  description: string;
+  guessesPerSecond: number;
+}
+
+export interface CrackTimeEstimate {
+  attacker: AttackerModel;
+  /** Expected seconds to find the password, i.e. half the search space. */
+  seconds: number;
+}
+
+export type StrengthLevel = "weak" | "fair" | "strong" | "very-strong";
+
+export const ATTACKER_MODELS: AttackerModel[] = [
+  {
+    name: "Online, throttled",
+    description: "Login form with rate limiting",
+    guessesPerSecond: 100 / 3600,
+  },
+  {
+    name: "Online, unthrottled",
+    description: "Login form without rate limiting",
+    guessesPerSecond: 10,
+  },
+  {
+    name: "Offline, slow hash",
+    description: "Leaked bcrypt, scrypt or Argon2 hashes",
+    guessesPerSecond: 1e4,
+  },
+  {
+    name: "Offline, fast hash",
+    description: "Leaked MD5 or SHA hashes on a GPU cluster",
+    guessesPerSecond: 1e11,
+  },
+];
+
+/**
+ * Computes log2 of a non-negative BigInt without losing precision to
+ * floating point overflow.
+ */
+function log2BigInt(value: bigint): number {
+  if (value <= BigInt(0)) return 0;
+  const bitLength = value.toString(2).length;
+  const shift = Math.max(0, bitLength - 53);
+  return Math.log2(Number(value >> BigInt(shift))) + shift;
+}
+
+/**
+ * Counts the passwords of the given length that satisfy every minimum
+ * requirement, with one class per character set.
+ *
+ * Classes are added one at a time: `ways[n]` is the number of ways to fill
+ * `n` of the positions with the classes seen so far, choosing which
+ * positions each class occupies and which characters it puts there.
+ */
+function countPasswords(
+  charsets: CharsetSelection,
+  minimums: Record<keyof CharsetSelection, number>,
+  length: number
+): bigint {
+  const binomials: bigint[][] = [];
+  for (let n = 0; n <= length; n++) {
+    binomials[n] = [BigInt(1)];
+    for (let k = 1; k <= n; k++) {
+      binomials[n][k] =
+        binomials[n - 1][k - 1] + (k < n ? binomials[n - 1][k] : BigInt(0));
+    }
+  }
+
+  let ways: bigint[] = [BigInt(1)];
+  for (const key of Object.keys(charsets) as (keyof CharsetSelection)[]) {
+    const size = BigInt(charsets[key].length);
+    if (size === BigInt(0)) continue;
+
+    const next: bigint[] = Array(length + 1).fill(BigInt(0));
+    for (let used = 0; used < ways.length; used++) {
+      if (ways[used] === BigInt(0)) continue;
+      for (let count = minimums[key]; used + count <= length; count++) {
+        next[used + count] +=
+          ways[used] * binomials[used + count][count] * size ** BigInt(count);
+      }
+    }
+    ways = next;
+  }
+
+  return ways[length] ?? BigInt(0);
+}
+
+/**
+ * Estimates the theoretical entropy of passwords generated with the given
+ * parameters: log2 of the number of passwords of the requested length that
+ * use only the available characters and meet every minimum count.
+ *
+ * Optional constraint rules shrink that set by the share of passwords they
+ * reject. The share is estimated by sampling (see `estimateRuleAcceptance`),
+ * so with rules the result is an estimate rather than an exact count.
+ *
+ * @param params - The password parameters.
+ * @param acceptance - The share of candidates the rules accept, if already
+ *   estimated.
+ * @returns The entropy in bits.
+ * @throws Error if the parameters are invalid or the rules are too strict.
+ */
+export function estimatePasswordEntropy(
+  params: GenerateParams,
+  acceptance: number = estimateRuleAcceptance(params)
+): number {
+  const charsets = validateGenerateParams(params);
+  const bits = log2BigInt(
+    countPasswords(
+      charsets,
+      {
+        uppercase: params.minUpper,
+        lowercase: params.minLower,
+        numbers: params.minNumbers,
+        symbols: params.minSymbols,
+      },
+      params.length
+    )
+  );
+  return bits + Math.log2(acceptance);
+}
+
+/**
+ * Estimates how long each attacker model needs to guess a secret with the
+ * given entropy, on average.
+ */
+export function estimateCrackTimes(bits: number): CrackTimeEstimate[] {
+  return ATTACKER_MODELS.map((attacker) => ({
+    attacker,
+    seconds: 2 ** (bits - 1) / attacker.guessesPerSecond,
+  }));
+}
+
+/**
+ * Maps an entropy estimate onto a coarse strength level.
+ */
+export function getStrengthLevel(bits: number): StrengthLevel {
+  if (bits < 40) return "weak";
+  if (bits < 60) return "fair";
+  if (bits < 80) return "strong";
+  return "very-strong";
+}
+
+const DURATION_UNITS: [number, string][] = [
+  [60, "second"],
+  [60, "minute"],
+  [24, "hour"],
+  [365.25, "day"],
+  [100, "year"],
+  [Infinity, "century"],
+];
+
+/**
+ * Formats a duration in seconds as a rough human readable string.
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 1) return "less than a second";
+  // Roughly 1000 times the age of the universe
+  if (seconds > 4.4e20) return "forever";
+
+  let value = seconds;
+  for (const [size, unit] of DURATION_UNITS) {
+    if (value < size) {
+      const rounded = Math.round(value);
+      if (unit === "century") {
+        return `${rounded.toLocaleString("en-US")} ${
+          rounded === 1 ? "century" : "centuries"
+        }`;
+      }
+      return `${rounded} ${unit}${rounded === 1 ? "" : "s"}`;
+    }
+    value /= size;
+  }
+  return "forever";
+}
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+
+/** Standard normal quantile for the p = 0.001 significance level. */
+const Z_0_999 = 3.0902;
+
+/**
+ * Computes Pearson's chi-square statistic of observed counts against a
+ * uniform distribution over the same categories.
+ */
+export function chiSquare(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  const expected = total / counts.length;
+  return counts.reduce(
+    (sum, count) => sum + (count - expected) ** 2 / expected,
+    0
+  );
+}
+
+/**
+ * Approximates the chi-square critical value at p = 0.001 with the
+ * Wilson–Hilferty transformation, which is accurate to a few percent even
+ * for small degrees of freedom.
+ */
+export function chiSquareCritical(degreesOfFreedom: number): number {
+  const k = degreesOfFreedom;
+  const spread = Math.sqrt(2 / (9 * k));
+  return k * (1 - 2 / (9 * k) + Z_0_999 * spread) ** 3;
+}
+
+/**
+ * Asserts that counts are consistent with a uniform distribution. The
+ * inputs are generated from fixed seeds, so the outcome is deterministic
+ * rather than failing one run in a thousand.
+ *
+ * @param counts - Observed count of each category.
+ * @param label - What was counted, for the failure message.
+ */
+export function assertUniform(counts: number[], label: string): void {
+  assert.ok(counts.length > 1, `${label}: needs at least two categories`);
+  const statistic = chiSquare(counts);
+  const critical = chiSquareCritical(counts.length - 1);
+  assert.ok(
+    statistic < critical,
+    `${label}: chi-square ${statistic.toFixed(1)} exceeds ${critical.toFixed(1)} (df ${counts.length - 1})`
+  );
+}
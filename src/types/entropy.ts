@@ -0,0 +1,12 @@
+import { RandomSeedResponse } from "@/types/orbitport";
+
+export type EntropyProviderName = "orbitport" | "local" | "test";
+
+export interface EntropyProvider {
+  name: EntropyProviderName;
+  /**
+   * Fetches one seed, throwing if the source is unavailable or the seed
+   * cannot be trusted.
+   */
+  getSeed(): Promise<RandomSeedResponse>;
+}
@@ -9,6 +9,25 @@ export interface OrbitportSeedResponse {
   };
 }
 
+export type SignatureStatus =
+  | "verified"
+  | "unpinned"
+  | "untrusted"
+  | "invalid"
+  | "unsupported"
+  | "unsigned";
+
+export interface SignatureVerification {
+  status: SignatureStatus;
+  algo: string;
+  fingerprint: string | null;
+}
+
+export interface SeedRejection {
+  provider: string;
+  reason: string;
+}
+
 export interface RandomSeedResponse {
   service: string;
   src: string;
@@ -18,5 +37,8 @@ export interface RandomSeedResponse {
     pk: string;
     algo: string;
   };
+  verification: SignatureVerification;
   usedFallback: boolean;
+  /** Why earlier providers in the chain did not deliver this seed. */
+  rejections?: SeedRejection[];
 }
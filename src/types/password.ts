@@ -0,0 +1,16 @@
+import { GeneratorMode } from "@/lib/generation-request";
+import { RandomSeedResponse } from "@/types/orbitport";
+import { GenerationReceipt } from "@/types/receipt";
+
+export interface PasswordApiResponse {
+  mode: GeneratorMode;
+  passwords: string[];
+  entropyBits: number;
+  seed: Omit<RandomSeedResponse, "usedFallback">;
+  usedFallback: boolean;
+  /**
+   * Receipt of the generation, without the passwords. It still contains the
+   * seed, so anyone holding it can regenerate them.
+   */
+  receipt: GenerationReceipt;
+}
@@ -0,0 +1,29 @@
+import { GenerationRequest } from "@/lib/generation-request";
+import {
+  OrbitportSeedResponse,
+  SignatureVerification,
+} from "@/types/orbitport";
+
+export interface GenerationReceipt {
+  /** Receipt format version. */
+  version: number;
+  /** Identifies the seed expansion and generation algorithms. */
+  algorithm: string;
+  /** ISO 8601 time of generation. */
+  createdAt: string;
+  request: GenerationRequest;
+  /** The seed exactly as delivered, so its signature can be re-checked. */
+  seed: OrbitportSeedResponse;
+  /** Local entropy mixed into the seed as hex, or null if none was. */
+  localEntropy: string | null;
+  /** Only present when the user opted in to storing the passwords. */
+  passwords?: string[];
+}
+
+export interface ReceiptVerification {
+  /** Whether the password is reproduced by the receipt. */
+  match: boolean;
+  /** Batch index of the matching password, or null if none matched. */
+  index: number | null;
+  signature: SignatureVerification;
+}